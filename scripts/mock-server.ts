@@ -0,0 +1,437 @@
+/**
+ * Mock outcome server for offline QA.
+ * Serves the HTTP/JSON outcome API (docs/outcome-api.md) using the same
+ * local RNG the client ships with.
+ *
+ * Also answers gambles on POST /gamble and keeps an in-memory wallet under
+ * POST /wallet/. The wallet pays rounds from the outcomes served for them,
+ * with jackpot pools of its own.
+ *
+ * Usage: npm run mock-server -- [--port 8081] [--delay 300]
+ *        [--fail-rate 0.1] [--hang-rate 0.1] [--seed 12345]
+ *        [--balance 10000]
+ */
+import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { LocalOutcomeProvider } from "../src/services/outcome/LocalOutcomeProvider";
+import { GRID } from "../src/math/grid";
+import { SeededRng } from "../src/math/Rng";
+import { CARD_SUITS, GambleEngine } from "../src/math/GambleEngine";
+import { GambleRequest, SpinResult } from "../src/core/types/type";
+import { GAME_CONFIG } from "../src/config/game.config";
+import { JackpotPools } from "../src/math/JackpotPools";
+import { LocalWallet } from "../src/services/wallet/LocalWallet";
+import { WalletError } from "../src/services/wallet/Wallet";
+import { fromMinorUnits, toMinorUnits } from "../src/utils/currency";
+
+function readOption(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = Number(process.argv[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+const PORT = readOption("port", 8081);
+const DELAY_MS = readOption("delay", 300);
+const FAIL_RATE = readOption("fail-rate", 0);
+const HANG_RATE = readOption("hang-rate", 0);
+const SEED = readOption("seed", Date.now());
+const BALANCE = readOption("balance", 10000);
+
+// Outcomes are reproducible for a given seed and request order
+const provider = new LocalOutcomeProvider(new SeededRng(SEED));
+
+// Not persisted, every run starts from --balance
+const wallet = new LocalWallet(null, BALANCE);
+const jackpots = new JackpotPools();
+
+/**
+ * What a round is owed from the outcomes served for it, in minor units.
+ * The wallet settles from this, never from amounts the client sends.
+ */
+interface RoundLedger {
+  // Base game wins, held for the gamble when the client asks
+  gambleable: number;
+  // Free spin, feature and jackpot wins, only ever credited
+  fixed: number;
+  // Held in escrow, what the gambles have made of it
+  held: number;
+}
+
+const ledgers = new Map<string, RoundLedger>();
+
+function getLedger(roundId: string): RoundLedger {
+  const ledger = ledgers.get(roundId);
+  if (!ledger) {
+    throw new WalletError("unknown-round", `No outcome for round '${roundId}'`);
+  }
+  return ledger;
+}
+
+/**
+ * Add what a spin won to its round, paying its jackpots from our own pools
+ */
+function recordSpin(
+  roundId: string,
+  bet: number,
+  freeSpin: boolean,
+  result: SpinResult
+): void {
+  const ledger = ledgers.get(roundId) ?? { gambleable: 0, fixed: 0, held: 0 };
+  ledgers.set(roundId, ledger);
+
+  if (!freeSpin) jackpots.contribute(bet);
+  const jackpotWin = result.jackpotsWon.reduce(
+    (sum, tier) => sum + jackpots.award(tier),
+    0
+  );
+  const bonusWin =
+    (result.holdAndWin?.totalWin ?? 0) + (result.pickBonus?.totalWin ?? 0);
+  const baseWin = result.totalWin - bonusWin;
+  const featureWin = bonusWin + jackpotWin;
+
+  // Free spins are never gambled, feature wins only when the game allows it
+  if (freeSpin) {
+    ledger.fixed += toMinorUnits(baseWin + featureWin);
+  } else if (GAME_CONFIG.gamble.featureWins) {
+    ledger.gambleable += toMinorUnits(baseWin + featureWin);
+  } else {
+    ledger.gambleable += toMinorUnits(baseWin);
+    ledger.fixed += toMinorUnits(featureWin);
+  }
+}
+
+/**
+ * HTTP status for a failed request, wallet refusals map to 402 and 404
+ */
+function getErrorStatus(error: unknown): number {
+  if (!(error instanceof WalletError)) return 500;
+  return error.reason === "insufficient-funds" ? 402 : 404;
+}
+
+function send(res: ServerResponse, status: number, body?: unknown): void {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Headers": "Content-Type",
+  });
+  res.end(body === undefined ? undefined : JSON.stringify(body));
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+function isPositionList(value: unknown): value is [number, number][] {
+  return (
+    Array.isArray(value) &&
+    value.every(
+      (position) =>
+        Array.isArray(position) &&
+        position.length === 2 &&
+        position.every((n) => Number.isInteger(n))
+    )
+  );
+}
+
+async function handleSpin(req: IncomingMessage, res: ServerResponse) {
+  let request: {
+    bet?: unknown;
+    lines?: unknown;
+    freeSpin?: unknown;
+    stickyWilds?: unknown;
+    roundId?: unknown;
+  };
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch {
+    send(res, 400, { error: "Request body is not valid JSON" });
+    return;
+  }
+
+  if (typeof request.bet !== "number" || request.bet <= 0) {
+    send(res, 400, { error: "'bet' must be a positive number" });
+    return;
+  }
+
+  if (
+    typeof request.lines !== "number" ||
+    !Number.isInteger(request.lines) ||
+    request.lines < 1 ||
+    request.lines > GRID.paylines.length
+  ) {
+    send(res, 400, {
+      error: `'lines' must be an integer from 1 to ${GRID.paylines.length}`,
+    });
+    return;
+  }
+
+  if (request.roundId !== undefined && typeof request.roundId !== "string") {
+    send(res, 400, { error: "'roundId' must be a string" });
+    return;
+  }
+
+  if (Math.random() < HANG_RATE) {
+    console.log("[mock-server] dropping request to force a client timeout");
+    return;
+  }
+
+  const bet = request.bet;
+  const roundId = request.roundId;
+  const lines = request.lines;
+  const freeSpin = request.freeSpin === true;
+  const stickyWilds = isPositionList(request.stickyWilds)
+    ? request.stickyWilds
+    : [];
+  setTimeout(async () => {
+    if (Math.random() < FAIL_RATE) {
+      send(res, 500, { error: "Injected failure" });
+      return;
+    }
+
+    const result = await provider.requestSpin({
+      bet,
+      lines,
+      freeSpin,
+      stickyWilds,
+    });
+    if (roundId !== undefined) {
+      recordSpin(roundId, bet, freeSpin, result);
+    }
+    console.log(`[mock-server] bet ${bet} -> win ${result.totalWin}`);
+    send(res, 200, result);
+  }, DELAY_MS);
+}
+
+const GAMBLE_GUESSES: GambleRequest["guess"][] = [
+  "RED",
+  "BLACK",
+  ...CARD_SUITS,
+];
+const gambleEngine = new GambleEngine();
+
+async function handleGamble(req: IncomingMessage, res: ServerResponse) {
+  let request: { roundId?: unknown; guess?: unknown; round?: unknown };
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch {
+    send(res, 400, { error: "Request body is not valid JSON" });
+    return;
+  }
+
+  // The stake is what we hold for the round, whatever the client says
+  const roundId = request.roundId;
+  if (typeof roundId !== "string") {
+    send(res, 400, { error: "'roundId' must be a string" });
+    return;
+  }
+  const ledger = ledgers.get(roundId);
+  if (!ledger || ledger.held <= 0) {
+    send(res, 404, { error: `No win held for round '${roundId}'` });
+    return;
+  }
+
+  const guess = GAMBLE_GUESSES.find((candidate) => candidate === request.guess);
+  if (!guess) {
+    send(res, 400, {
+      error: `'guess' must be one of ${GAMBLE_GUESSES.join(", ")}`,
+    });
+    return;
+  }
+
+  if (
+    typeof request.round !== "number" ||
+    !Number.isInteger(request.round) ||
+    request.round < 0 ||
+    !gambleEngine.canGamble(request.round)
+  ) {
+    send(res, 400, { error: "'round' is not an allowed gamble round" });
+    return;
+  }
+
+  const stake = fromMinorUnits(ledger.held);
+  const round = request.round;
+  setTimeout(async () => {
+    if (Math.random() < FAIL_RATE) {
+      send(res, 500, { error: "Injected failure" });
+      return;
+    }
+
+    try {
+      const result = await provider.requestGamble({
+        stake,
+        roundId,
+        guess,
+        round,
+      });
+      ledger.held = toMinorUnits(result.win);
+      await wallet.hold(roundId, result.win);
+      console.log(
+        `[mock-server] gamble ${stake} on ${guess} -> ${result.card}, win ${result.win}`
+      );
+      send(res, 200, result);
+    } catch (error) {
+      console.error("[mock-server] gamble failed:", error);
+      send(res, getErrorStatus(error), { error: String(error) });
+    }
+  }, DELAY_MS);
+}
+
+const WALLET_ROUTES = [
+  "balance",
+  "debit",
+  "credit",
+  "hold",
+  "release",
+  "rollback",
+] as const;
+
+/**
+ * Move the money for a wallet route. Only a debit takes an amount, wins are
+ * settled from the round's ledger.
+ */
+async function walletTransaction(
+  route: (typeof WALLET_ROUTES)[number],
+  roundId: string | undefined,
+  amount: number
+): Promise<number> {
+  switch (route) {
+    case "debit":
+      return wallet.debit(roundId as string, amount);
+    case "credit": {
+      const ledger = getLedger(roundId as string);
+      const balance = await wallet.credit(
+        roundId as string,
+        fromMinorUnits(ledger.gambleable + ledger.fixed)
+      );
+      ledger.gambleable = 0;
+      ledger.fixed = 0;
+      return balance;
+    }
+    case "hold": {
+      const ledger = getLedger(roundId as string);
+      const held = ledger.held + ledger.gambleable;
+      const balance = await wallet.hold(
+        roundId as string,
+        fromMinorUnits(held)
+      );
+      ledger.held = held;
+      ledger.gambleable = 0;
+      return balance;
+    }
+    case "release": {
+      // Without a round id, every held win is paid out
+      const balance =
+        roundId === undefined
+          ? await wallet.releaseHeld()
+          : await wallet.release(roundId);
+      ledgers.forEach((ledger, id) => {
+        if (roundId === undefined || id === roundId) ledger.held = 0;
+      });
+      return balance;
+    }
+    case "rollback": {
+      const balance = await wallet.rollback(roundId as string);
+      ledgers.delete(roundId as string);
+      return balance;
+    }
+    default:
+      return wallet.getBalance();
+  }
+}
+
+async function handleWallet(
+  route: (typeof WALLET_ROUTES)[number],
+  req: IncomingMessage,
+  res: ServerResponse
+) {
+  let request: { roundId?: unknown; amount?: unknown };
+  try {
+    request = JSON.parse(await readBody(req));
+  } catch {
+    send(res, 400, { error: "Request body is not valid JSON" });
+    return;
+  }
+
+  const { roundId, amount } = request;
+  // A balance, and a release of every held win, go without a round
+  const roundOptional = route === "balance" || route === "release";
+  if (
+    typeof roundId !== "string" &&
+    !(roundOptional && roundId === undefined)
+  ) {
+    send(res, 400, { error: "'roundId' must be a string" });
+    return;
+  }
+  if (
+    route === "debit" &&
+    (!Number.isInteger(amount) || (amount as number) < 0)
+  ) {
+    send(res, 400, { error: "'amount' must be whole minor units" });
+    return;
+  }
+
+  setTimeout(async () => {
+    if (Math.random() < FAIL_RATE) {
+      send(res, 500, { error: "Injected failure" });
+      return;
+    }
+
+    try {
+      const balance = await walletTransaction(
+        route,
+        roundId,
+        fromMinorUnits(amount as number)
+      );
+      console.log(`[mock-server] wallet ${route} -> ${balance}`);
+      send(res, 200, { balance: toMinorUnits(balance) });
+    } catch (error) {
+      send(res, getErrorStatus(error), { error: String(error) });
+    }
+  }, DELAY_MS);
+}
+
+const server = createServer((req, res) => {
+  if (req.method === "OPTIONS") {
+    send(res, 204);
+    return;
+  }
+
+  if (req.method === "POST" && req.url === "/spin") {
+    handleSpin(req, res).catch((error) => {
+      console.error("[mock-server] spin failed:", error);
+      send(res, 500, { error: "Internal error" });
+    });
+    return;
+  }
+
+  if (req.method === "POST" && req.url === "/gamble") {
+    handleGamble(req, res).catch((error) => {
+      console.error("[mock-server] gamble failed:", error);
+      send(res, 500, { error: "Internal error" });
+    });
+    return;
+  }
+
+  const walletRoute = WALLET_ROUTES.find(
+    (route) => req.url === `/wallet/${route}`
+  );
+  if (req.method === "POST" && walletRoute) {
+    handleWallet(walletRoute, req, res).catch((error) => {
+      console.error("[mock-server] wallet failed:", error);
+      send(res, 500, { error: "Internal error" });
+    });
+    return;
+  }
+
+  send(res, 404, { error: `No route for ${req.method} ${req.url}` });
+});
+
+server.listen(PORT, () => {
+  console.log(`[mock-server] listening on http://localhost:${PORT}/spin`);
+  console.log(`[mock-server] seed ${SEED}`);
+});
@@ -0,0 +1,109 @@
+/**
+ * Headless RTP/volatility simulator for the game math.
+ *
+ * Usage: npm run simulate -- [--spins 1000000] [--bet 10] [--lines 25]
+ *        [--mode lines|ways] [--seed 12345] [--json]
+ */
+import { GRID } from "../src/math/grid";
+import { GAME_CONFIG } from "../src/config/game.config";
+import { WinEvaluationMode } from "../src/core/types/type";
+import { RtpSimulator, SimulationReport } from "../src/math/RtpSimulator";
+import { SpinEngine } from "../src/math/SpinEngine";
+
+function readOption(name: string, fallback: number): number {
+  const index = process.argv.indexOf(`--${name}`);
+  if (index === -1) return fallback;
+  const value = Number(process.argv[index + 1]);
+  return Number.isFinite(value) ? value : fallback;
+}
+
+function readMode(): WinEvaluationMode {
+  const index = process.argv.indexOf("--mode");
+  const value = index === -1 ? undefined : process.argv[index + 1];
+  return value === "lines" || value === "ways"
+    ? value
+    : GAME_CONFIG.winEvaluation;
+}
+
+const percent = (value: number, digits = 2) =>
+  `${(value * 100).toFixed(digits)}%`;
+
+function formatReport(
+  report: SimulationReport,
+  mode: WinEvaluationMode
+): string {
+  const { options } = report;
+  const lines = [
+    `Spins:              ${options.spins.toLocaleString("en-US")}`,
+    `Bet:                ${options.bet} (${options.lines} lines, ${mode} mode)`,
+    `Seed:               ${options.seed}`,
+    ``,
+    `RTP:                ${percent(report.rtp, 3)}`,
+    `Hit frequency:      ${percent(report.hitFrequency)} (1 in ${(1 / report.hitFrequency).toFixed(2)})`,
+    `Std deviation:      ${report.standardDeviation.toFixed(3)}x bet`,
+    `Max win:            ${report.maxWin.amount} (${report.maxWin.multiplier.toFixed(1)}x) on spin ${report.maxWin.spin}`,
+    ``,
+    `Win distribution (x bet)   count        frequency   RTP`,
+    ...report.buckets.map(
+      (bucket) =>
+        `  ${bucket.label.padEnd(24)} ${String(bucket.count).padStart(10)}   ${percent(bucket.frequency, 3).padStart(9)}   ${percent(bucket.rtpContribution, 3).padStart(8)}`
+    ),
+    ``,
+    `Symbol contribution        hits         RTP`,
+    ...report.symbols.map(
+      (symbol) =>
+        `  ${symbol.symbol.padEnd(24)} ${String(symbol.hits).padStart(10)}   ${percent(symbol.rtpContribution, 3).padStart(8)}`
+    ),
+    ``,
+    `Free spins`,
+    `  Triggers:         ${report.freeSpins.triggers} (1 in ${report.freeSpins.triggerInterval.toFixed(1)} spins)`,
+    `  Retriggers:       ${report.freeSpins.retriggers}`,
+    `  Spins played:     ${report.freeSpins.spinsPlayed}`,
+    `  Average win:      ${(report.freeSpins.averageWin / options.bet).toFixed(2)}x bet`,
+    `  RTP:              ${percent(report.freeSpins.rtpContribution, 3)}`,
+    ``,
+    `Hold & Win`,
+    `  Triggers:         ${report.holdAndWin.triggers} (1 in ${report.holdAndWin.triggerInterval.toFixed(1)} spins)`,
+    `  Average win:      ${(report.holdAndWin.averageWin / options.bet).toFixed(2)}x bet`,
+    `  RTP:              ${percent(report.holdAndWin.rtpContribution, 3)}`,
+    `  Jackpot coins:    ${Object.entries(report.holdAndWin.jackpots)
+      .map(([tier, count]) => `${tier} ${count}`)
+      .join(", ")}`,
+    ``,
+    `Pick bonus`,
+    `  Triggers:         ${report.pickBonus.triggers} (1 in ${report.pickBonus.triggerInterval.toFixed(1)} spins)`,
+    `  Average win:      ${(report.pickBonus.averageWin / options.bet).toFixed(2)}x bet`,
+    `  RTP:              ${percent(report.pickBonus.rtpContribution, 3)}`,
+    ``,
+    `Progressive jackpots       wins   average win   RTP`,
+    ...report.jackpots.map(
+      (jackpot) =>
+        `  ${jackpot.tier.padEnd(24)} ${String(jackpot.wins).padStart(6)}   ${(jackpot.averageWin / options.bet).toFixed(1).padStart(9)}x   ${percent(jackpot.rtpContribution, 3).padStart(8)}`
+    ),
+    ``,
+    `Simulated in ${(report.durationMs / 1000).toFixed(1)}s`,
+  ];
+  return lines.join("\n");
+}
+
+const options = {
+  spins: readOption("spins", 1_000_000),
+  bet: readOption("bet", 10),
+  lines: readOption("lines", GRID.defaultLines),
+  seed: readOption("seed", Date.now() >>> 0),
+};
+const mode = readMode();
+const asJson = process.argv.includes("--json");
+
+const report = new RtpSimulator(new SpinEngine(mode)).run(options, (done) => {
+  process.stderr.write(
+    `\r${percent(done / options.spins, 0)} of ${options.spins} spins`
+  );
+});
+process.stderr.write("\n");
+
+console.log(
+  asJson
+    ? JSON.stringify({ mode, ...report }, null, 2)
+    : formatReport(report, mode)
+);
@@ -0,0 +1,228 @@
+import * as PIXI from "pixi.js";
+import { GAME_CONFIG } from "../config/game.config";
+import { AutoplaySettings } from "../core/AutoplaySession";
+import { formatCurrency } from "../utils/currency";
+
+/**
+ * Modal panel to set up autoplay: each option steps to its next choice when
+ * clicked, START hands the settings back.
+ */
+export class AutoplayPanel extends PIXI.Container {
+  private readonly PANEL_WIDTH = 560;
+  private readonly PANEL_HEIGHT = 500;
+  private readonly ROW_HEIGHT = 60;
+
+  private settings: AutoplaySettings = {
+    spins: GAME_CONFIG.autoplay.spins[0],
+    lossLimit: GAME_CONFIG.autoplay.lossLimits[0],
+    winLimit: GAME_CONFIG.autoplay.winLimits[0],
+    stopOnFeature: true,
+  };
+  private resolveSettings?: (settings: AutoplaySettings | null) => void;
+
+  constructor(screenWidth: number, screenHeight: number) {
+    super();
+
+    // Dimmed backdrop that swallows clicks
+    const backdrop = new PIXI.Graphics();
+    backdrop.beginFill(0x000000, 0.6);
+    backdrop.drawRect(0, 0, screenWidth, screenHeight);
+    backdrop.endFill();
+    backdrop.interactive = true;
+    this.addChild(backdrop);
+
+    const panel = new PIXI.Graphics();
+    panel.lineStyle(4, 0x7da0dd);
+    panel.beginFill(0x23193c);
+    panel.drawRoundedRect(0, 0, this.PANEL_WIDTH, this.PANEL_HEIGHT, 16);
+    panel.endFill();
+    panel.position.set(
+      (screenWidth - this.PANEL_WIDTH) / 2,
+      (screenHeight - this.PANEL_HEIGHT) / 2
+    );
+    this.addChild(panel);
+
+    const titleText = new PIXI.Text("AUTOPLAY", {
+      fontFamily: "Arial",
+      fontSize: 36,
+      fill: 0xffff00,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 4,
+    });
+    titleText.anchor.set(0.5, 0);
+    titleText.position.set(this.PANEL_WIDTH / 2, 20);
+    panel.addChild(titleText);
+
+    const { spins, lossLimits, winLimits } = GAME_CONFIG.autoplay;
+    this.createOption(
+      panel,
+      0,
+      "Spins",
+      () => (this.settings.spins = nextChoice(spins, this.settings.spins)),
+      () => formatSpins(this.settings.spins)
+    );
+    this.createOption(
+      panel,
+      1,
+      "Loss limit",
+      () =>
+        (this.settings.lossLimit = nextChoice(
+          lossLimits,
+          this.settings.lossLimit
+        )),
+      () => formatLimit(this.settings.lossLimit)
+    );
+    this.createOption(
+      panel,
+      2,
+      "Single win limit",
+      () =>
+        (this.settings.winLimit = nextChoice(
+          winLimits,
+          this.settings.winLimit
+        )),
+      () => formatLimit(this.settings.winLimit)
+    );
+    this.createOption(
+      panel,
+      3,
+      "Stop on feature",
+      () => (this.settings.stopOnFeature = !this.settings.stopOnFeature),
+      () => (this.settings.stopOnFeature ? "YES" : "NO")
+    );
+
+    const buttonY = this.PANEL_HEIGHT - 80;
+    this.createButton(panel, "CANCEL", 0x555555, 60, buttonY, () =>
+      this.choose(null)
+    );
+    this.createButton(
+      panel,
+      "START",
+      0x00aa00,
+      this.PANEL_WIDTH - 220,
+      buttonY,
+      () => this.choose({ ...this.settings })
+    );
+  }
+
+  /**
+   * Resolves with the chosen settings, or null when cancelled
+   */
+  public waitForSettings(): Promise<AutoplaySettings | null> {
+    return new Promise((resolve) => {
+      this.resolveSettings = resolve;
+    });
+  }
+
+  /**
+   * Remove the panel from its parent
+   */
+  public close(): void {
+    if (this.parent) {
+      this.parent.removeChild(this);
+    }
+    this.destroy({ children: true });
+  }
+
+  private choose(settings: AutoplaySettings | null): void {
+    const resolve = this.resolveSettings;
+    this.resolveSettings = undefined;
+    resolve?.(settings);
+  }
+
+  /**
+   * A labelled value on a row of the panel, clicking it runs `step` to move
+   * the setting to its next choice
+   */
+  private createOption(
+    parent: PIXI.Container,
+    index: number,
+    label: string,
+    step: () => void,
+    format: () => string
+  ): void {
+    const y = 100 + index * this.ROW_HEIGHT;
+
+    const labelText = new PIXI.Text(label, {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffffff,
+    });
+    labelText.anchor.set(0, 0.5);
+    labelText.position.set(40, y + 25);
+    parent.addChild(labelText);
+
+    const button = new PIXI.Graphics();
+    button.lineStyle(3, 0x7da0dd);
+    button.beginFill(0x3a2d5c);
+    button.drawRoundedRect(0, 0, 160, 50, 10);
+    button.endFill();
+    button.position.set(this.PANEL_WIDTH - 200, y);
+    button.interactive = true;
+    button.cursor = "pointer";
+    parent.addChild(button);
+
+    const valueText = new PIXI.Text(format(), {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffff00,
+      fontWeight: "bold",
+    });
+    valueText.anchor.set(0.5);
+    valueText.position.set(80, 25);
+    button.addChild(valueText);
+
+    button.on("pointerdown", () => {
+      step();
+      valueText.text = format();
+    });
+  }
+
+  private createButton(
+    parent: PIXI.Container,
+    label: string,
+    colour: number,
+    x: number,
+    y: number,
+    onClick: () => void
+  ): void {
+    const button = new PIXI.Graphics();
+    button.beginFill(colour);
+    button.drawRoundedRect(0, 0, 160, 50, 10);
+    button.endFill();
+    button.position.set(x, y);
+    button.interactive = true;
+    button.cursor = "pointer";
+    button.on("pointerdown", onClick);
+    parent.addChild(button);
+
+    const text = new PIXI.Text(label, {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffffff,
+      fontWeight: "bold",
+    });
+    text.anchor.set(0.5);
+    text.position.set(80, 25);
+    button.addChild(text);
+  }
+}
+
+/**
+ * The choice after `current`, wrapping back to the first
+ */
+function nextChoice<T>(choices: T[], current: T): T {
+  return choices[(choices.indexOf(current) + 1) % choices.length];
+}
+
+/**
+ * Spin count as shown to the player
+ */
+export function formatSpins(spins: number): string {
+  return Number.isFinite(spins) ? String(spins) : "∞";
+}
+
+function formatLimit(limit: number | null): string {
+  return limit === null ? "NONE" : formatCurrency(limit);
+}
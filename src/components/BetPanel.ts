@@ -0,0 +1,264 @@
+import * as PIXI from "pixi.js";
+import { AssetManager } from "../managers/AssetManager";
+import { ASSET_NAMES } from "../config/assets.config";
+import { GAME_CONFIG } from "../config/game.config";
+import { BetLadder } from "../core/BetLadder";
+import { formatCurrency } from "../utils/currency";
+
+// Label art, the text shown without it, the step and the value display
+type StepperSpec = [
+  string,
+  string,
+  (direction: 1 | -1) => boolean,
+  () => string,
+];
+
+/**
+ * Bet controls: +/- steppers for coin value, bet level and lines, the total
+ * bet and a max bet button.
+ */
+export class BetPanel extends PIXI.Container {
+  private readonly STEPPER_WIDTH = 180;
+  private readonly STEPPER_GAP = 15;
+  private readonly LABEL_HEIGHT = 28;
+  private readonly BOX_HEIGHT = 50;
+
+  private ladder: BetLadder;
+  private valueTexts: { text: PIXI.Text; format: () => string }[] = [];
+  private totalText: PIXI.Text;
+  private controls: PIXI.Container[] = [];
+  private assetManager = AssetManager.getInstance();
+
+  constructor(ladder: BetLadder) {
+    super();
+    this.ladder = ladder;
+
+    const steppers: StepperSpec[] = [
+      [
+        ASSET_NAMES.COIN_VALUE_LABEL,
+        "COIN VALUE",
+        (dir) => ladder.stepCoinValue(dir),
+        () => formatCurrency(ladder.coinValue),
+      ],
+      [
+        ASSET_NAMES.LEVEL_LABEL,
+        "LEVEL",
+        (dir) => ladder.stepLevel(dir),
+        () => String(ladder.level),
+      ],
+    ];
+    // Lines are meaningless when every adjacent match pays
+    if (GAME_CONFIG.winEvaluation === "lines") {
+      steppers.push([
+        ASSET_NAMES.LINES_LABEL,
+        "LINES",
+        (dir) => ladder.stepLines(dir),
+        () => String(ladder.lines),
+      ]);
+    }
+
+    steppers.forEach(([asset, label, step, format], i) =>
+      this.createStepper(
+        i * (this.STEPPER_WIDTH + this.STEPPER_GAP),
+        asset,
+        label,
+        step,
+        format
+      )
+    );
+
+    // Total bet and max bet, on a second row
+    const rowY = this.LABEL_HEIGHT + this.BOX_HEIGHT + 20;
+    this.addChild(
+      this.createLabel(
+        ASSET_NAMES.BET_LABEL,
+        "BET",
+        this.STEPPER_WIDTH / 2,
+        rowY
+      )
+    );
+    const totalBox = this.createBox(
+      0,
+      rowY + this.LABEL_HEIGHT,
+      this.STEPPER_WIDTH
+    );
+    this.totalText = this.createValueText(this.STEPPER_WIDTH / 2);
+    totalBox.addChild(this.totalText);
+
+    this.createMaxBetButton(
+      this.STEPPER_WIDTH + this.STEPPER_GAP,
+      rowY,
+      this.LABEL_HEIGHT + this.BOX_HEIGHT
+    );
+
+    this.refresh();
+  }
+
+  /**
+   * Lock the controls while a spin or a feature is running
+   */
+  public setLocked(locked: boolean): void {
+    this.controls.forEach((control) => {
+      control.interactive = !locked;
+      control.alpha = locked ? 0.5 : 1;
+    });
+  }
+
+  /**
+   * Show the ladder's current values, after it was changed from outside
+   */
+  public refresh(): void {
+    this.valueTexts.forEach(({ text, format }) => (text.text = format()));
+    this.totalText.text = formatCurrency(this.ladder.totalBet);
+  }
+
+  private createStepper(
+    x: number,
+    asset: string,
+    label: string,
+    step: (direction: 1 | -1) => boolean,
+    format: () => string
+  ): void {
+    this.addChild(
+      this.createLabel(asset, label, x + this.STEPPER_WIDTH / 2, 0)
+    );
+
+    const box = this.createBox(x, this.LABEL_HEIGHT, this.STEPPER_WIDTH);
+    const text = this.createValueText(this.STEPPER_WIDTH / 2);
+    box.addChild(text);
+    this.valueTexts.push({ text, format });
+
+    const size = this.BOX_HEIGHT;
+    box.addChild(
+      this.createStepButton("-", 0, size, () => step(-1) && this.refresh())
+    );
+    box.addChild(
+      this.createStepButton(
+        "+",
+        this.STEPPER_WIDTH - size,
+        size,
+        () => step(1) && this.refresh()
+      )
+    );
+  }
+
+  /**
+   * Label art centred on `x`, or plain text where there is no art for it
+   */
+  private createLabel(
+    asset: string,
+    label: string,
+    x: number,
+    y: number
+  ): PIXI.Container {
+    const texture = this.assetManager.getTexture(asset);
+    if (texture) {
+      const sprite = new PIXI.Sprite(texture);
+      sprite.anchor.set(0.5, 0);
+      sprite.scale.set((this.LABEL_HEIGHT - 6) / texture.height);
+      sprite.position.set(x, y);
+      return sprite;
+    }
+
+    const text = new PIXI.Text(label, {
+      fontFamily: "Arial",
+      fontSize: 20,
+      fill: 0xffd9a0,
+      fontWeight: "bold",
+    });
+    text.anchor.set(0.5, 0);
+    text.position.set(x, y);
+    return text;
+  }
+
+  private createBox(x: number, y: number, width: number): PIXI.Graphics {
+    const box = new PIXI.Graphics();
+    box.lineStyle(3, 0x7da0dd);
+    box.beginFill(0x23193c);
+    box.drawRoundedRect(0, 0, width, this.BOX_HEIGHT, 10);
+    box.endFill();
+    box.position.set(x, y);
+    this.addChild(box);
+    return box;
+  }
+
+  private createValueText(x: number): PIXI.Text {
+    const text = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffffff,
+      fontWeight: "bold",
+    });
+    text.anchor.set(0.5);
+    text.position.set(x, this.BOX_HEIGHT / 2);
+    return text;
+  }
+
+  private createStepButton(
+    label: string,
+    x: number,
+    size: number,
+    onClick: () => void
+  ): PIXI.Graphics {
+    const button = new PIXI.Graphics();
+    button.beginFill(0x3a2d5c);
+    button.drawRoundedRect(4, 4, size - 8, size - 8, 8);
+    button.endFill();
+    button.position.set(x, 0);
+    button.interactive = true;
+    button.cursor = "pointer";
+    button.on("pointerdown", onClick);
+    this.controls.push(button);
+
+    const text = new PIXI.Text(label, {
+      fontFamily: "Arial",
+      fontSize: 30,
+      fill: 0xffff00,
+      fontWeight: "bold",
+    });
+    text.anchor.set(0.5);
+    text.position.set(size / 2, size / 2);
+    button.addChild(text);
+    return button;
+  }
+
+  private createMaxBetButton(x: number, y: number, height: number): void {
+    const width = this.STEPPER_WIDTH;
+    const button = new PIXI.Container();
+    button.position.set(x, y);
+    button.interactive = true;
+    button.cursor = "pointer";
+    button.on("pointerdown", () => {
+      if (this.ladder.isMaxBet) return;
+      this.ladder.setMaxBet();
+      this.refresh();
+    });
+    this.controls.push(button);
+    this.addChild(button);
+
+    const background = new PIXI.Sprite(
+      this.assetManager.getTexture(ASSET_NAMES.MAX_BET_BUTTON) ??
+        PIXI.Texture.WHITE
+    );
+    background.width = width;
+    background.height = height;
+    button.addChild(background);
+
+    const labelTexture = this.assetManager.getTexture(
+      ASSET_NAMES.MAX_BET_LABEL
+    );
+    const label = labelTexture
+      ? new PIXI.Sprite(labelTexture)
+      : new PIXI.Text("MAX\nBET", {
+          fontFamily: "Arial",
+          fontSize: 24,
+          fill: 0x23193c,
+          fontWeight: "bold",
+          align: "center",
+        });
+    label.anchor.set(0.5);
+    label.scale.set((height * 0.6) / label.height);
+    label.position.set(width / 2, height / 2);
+    button.addChild(label);
+  }
+}
@@ -0,0 +1,107 @@
+import * as PIXI from "pixi.js";
+
+/**
+ * Modal panel with a title, a message and a single confirm button.
+ * Blocks input to everything behind it until dismissed.
+ */
+export class Dialog extends PIXI.Container {
+  private readonly PANEL_WIDTH = 560;
+  private readonly PANEL_HEIGHT = 300;
+
+  private resolveClose?: () => void;
+
+  constructor(
+    screenWidth: number,
+    screenHeight: number,
+    title: string,
+    message: string,
+    buttonLabel: string = "OK"
+  ) {
+    super();
+
+    // Dimmed backdrop that swallows clicks
+    const backdrop = new PIXI.Graphics();
+    backdrop.beginFill(0x000000, 0.6);
+    backdrop.drawRect(0, 0, screenWidth, screenHeight);
+    backdrop.endFill();
+    backdrop.interactive = true;
+    this.addChild(backdrop);
+
+    const panel = new PIXI.Graphics();
+    panel.lineStyle(4, 0x7da0dd);
+    panel.beginFill(0x23193c);
+    panel.drawRoundedRect(0, 0, this.PANEL_WIDTH, this.PANEL_HEIGHT, 16);
+    panel.endFill();
+    panel.position.set(
+      (screenWidth - this.PANEL_WIDTH) / 2,
+      (screenHeight - this.PANEL_HEIGHT) / 2
+    );
+    this.addChild(panel);
+
+    const titleText = new PIXI.Text(title, {
+      fontFamily: "Arial",
+      fontSize: 36,
+      fill: 0xffff00,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 4,
+    });
+    titleText.anchor.set(0.5, 0);
+    titleText.position.set(this.PANEL_WIDTH / 2, 24);
+    panel.addChild(titleText);
+
+    const messageText = new PIXI.Text(message, {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffffff,
+      align: "center",
+      wordWrap: true,
+      wordWrapWidth: this.PANEL_WIDTH - 60,
+    });
+    messageText.anchor.set(0.5);
+    messageText.position.set(this.PANEL_WIDTH / 2, this.PANEL_HEIGHT / 2);
+    panel.addChild(messageText);
+
+    const button = new PIXI.Graphics();
+    button.beginFill(0x00aa00);
+    button.drawRoundedRect(0, 0, 160, 60, 10);
+    button.endFill();
+    button.position.set((this.PANEL_WIDTH - 160) / 2, this.PANEL_HEIGHT - 84);
+    button.interactive = true;
+    button.cursor = "pointer";
+    button.on("pointerdown", () => this.close());
+    panel.addChild(button);
+
+    const buttonText = new PIXI.Text(buttonLabel, {
+      fontFamily: "Arial",
+      fontSize: 28,
+      fill: 0xffffff,
+      fontWeight: "bold",
+    });
+    buttonText.anchor.set(0.5);
+    buttonText.position.set(80, 30);
+    button.addChild(buttonText);
+  }
+
+  /**
+   * Show the dialog on the given parent, resolves once it is dismissed
+   */
+  public show(parent: PIXI.Container): Promise<void> {
+    parent.addChild(this);
+    return new Promise((resolve) => {
+      this.resolveClose = resolve;
+    });
+  }
+
+  /**
+   * Remove the dialog and notify whoever is waiting on it
+   */
+  public close(): void {
+    if (this.parent) {
+      this.parent.removeChild(this);
+    }
+    this.resolveClose?.();
+    this.resolveClose = undefined;
+    this.destroy({ children: true });
+  }
+}
@@ -0,0 +1,209 @@
+import * as PIXI from "pixi.js";
+import { gsap } from "gsap";
+import { CardSuit, GambleRequest } from "../core/types/type";
+import { getGamblePays, getSuitColour } from "../math/GambleEngine";
+import { roundAmount } from "../math/WinEvaluator";
+import { formatCurrency } from "../utils/currency";
+
+type Guess = GambleRequest["guess"];
+
+const SUIT_GLYPHS: Record<CardSuit, string> = {
+  HEARTS: "♥",
+  DIAMONDS: "♦",
+  CLUBS: "♣",
+  SPADES: "♠",
+};
+
+/**
+ * Modal double-up panel: shows the win at stake and the last card drawn, and
+ * asks for a colour, a suit or collect.
+ * It only collects the player's choices - the caller draws the cards.
+ */
+export class GamblePanel extends PIXI.Container {
+  private readonly PANEL_WIDTH = 640;
+  private readonly PANEL_HEIGHT = 520;
+
+  private stakeText: PIXI.Text;
+  private roundsText: PIXI.Text;
+  private cardText: PIXI.Text;
+  private resolveChoice?: (guess: Guess | null) => void;
+
+  constructor(screenWidth: number, screenHeight: number) {
+    super();
+
+    // Dimmed backdrop that swallows clicks
+    const backdrop = new PIXI.Graphics();
+    backdrop.beginFill(0x000000, 0.6);
+    backdrop.drawRect(0, 0, screenWidth, screenHeight);
+    backdrop.endFill();
+    backdrop.interactive = true;
+    this.addChild(backdrop);
+
+    const panel = new PIXI.Graphics();
+    panel.lineStyle(4, 0x7da0dd);
+    panel.beginFill(0x23193c);
+    panel.drawRoundedRect(0, 0, this.PANEL_WIDTH, this.PANEL_HEIGHT, 16);
+    panel.endFill();
+    panel.position.set(
+      (screenWidth - this.PANEL_WIDTH) / 2,
+      (screenHeight - this.PANEL_HEIGHT) / 2
+    );
+    this.addChild(panel);
+
+    const titleText = new PIXI.Text("GAMBLE", {
+      fontFamily: "Arial",
+      fontSize: 36,
+      fill: 0xffff00,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 4,
+    });
+    titleText.anchor.set(0.5, 0);
+    titleText.position.set(this.PANEL_WIDTH / 2, 20);
+    panel.addChild(titleText);
+
+    this.stakeText = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 22,
+      fill: 0xffffff,
+      align: "center",
+    });
+    this.stakeText.anchor.set(0.5, 0);
+    this.stakeText.position.set(this.PANEL_WIDTH / 2, 70);
+    panel.addChild(this.stakeText);
+
+    this.roundsText = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 18,
+      fill: 0xaaaaaa,
+    });
+    this.roundsText.anchor.set(0.5, 0);
+    this.roundsText.position.set(this.PANEL_WIDTH / 2, 130);
+    panel.addChild(this.roundsText);
+
+    // Face of the last card drawn
+    const card = new PIXI.Graphics();
+    card.lineStyle(3, 0x000000);
+    card.beginFill(0xffffff);
+    card.drawRoundedRect(-50, -70, 100, 140, 10);
+    card.endFill();
+    card.position.set(this.PANEL_WIDTH / 2, 240);
+    panel.addChild(card);
+
+    this.cardText = new PIXI.Text("?", {
+      fontFamily: "Arial",
+      fontSize: 72,
+      fill: 0x23193c,
+      fontWeight: "bold",
+    });
+    this.cardText.anchor.set(0.5);
+    card.addChild(this.cardText);
+
+    const buttonY = this.PANEL_HEIGHT - 190;
+    this.createButton(panel, "RED", 0xcc0000, 30, buttonY, () =>
+      this.choose("RED")
+    );
+    this.createButton(panel, "BLACK", 0x222222, 30, buttonY + 60, () =>
+      this.choose("BLACK")
+    );
+    (Object.keys(SUIT_GLYPHS) as CardSuit[]).forEach((suit, i) =>
+      this.createButton(
+        panel,
+        SUIT_GLYPHS[suit],
+        getSuitColour(suit) === "RED" ? 0xcc0000 : 0x222222,
+        this.PANEL_WIDTH - 250 + (i % 2) * 110,
+        buttonY + Math.floor(i / 2) * 60,
+        () => this.choose(suit),
+        100
+      )
+    );
+    this.createButton(
+      panel,
+      "COLLECT",
+      0x00aa00,
+      (this.PANEL_WIDTH - 160) / 2,
+      this.PANEL_HEIGHT - 60,
+      () => this.choose(null)
+    );
+  }
+
+  /**
+   * Show the win now at stake and the gambles left on it
+   */
+  public setStake(stake: number, roundsLeft: number): void {
+    this.stakeText.text =
+      `At stake: ${formatCurrency(stake)}\n` +
+      `Colour pays ${formatCurrency(roundAmount(stake * getGamblePays("RED")))}, ` +
+      `suit pays ${formatCurrency(roundAmount(stake * getGamblePays("HEARTS")))}`;
+    this.roundsText.text = `Gambles left: ${roundsLeft}`;
+  }
+
+  /**
+   * Resolves with the next guess, or null when the player collects
+   */
+  public waitForChoice(): Promise<Guess | null> {
+    return new Promise((resolve) => {
+      this.resolveChoice = resolve;
+    });
+  }
+
+  /**
+   * Turn the card over to the suit drawn
+   */
+  public async showCard(suit: CardSuit, won: boolean): Promise<void> {
+    await gsap.to(this.cardText.scale, { x: 0, duration: 0.15 });
+    this.cardText.text = SUIT_GLYPHS[suit];
+    this.cardText.style.fill =
+      getSuitColour(suit) === "RED" ? 0xcc0000 : 0x000000;
+    await gsap.to(this.cardText.scale, { x: 1, duration: 0.15 });
+
+    this.stakeText.text = won ? "WIN!" : "Lost";
+  }
+
+  /**
+   * Remove the panel from its parent
+   */
+  public close(): void {
+    if (this.parent) {
+      this.parent.removeChild(this);
+    }
+    this.destroy({ children: true });
+  }
+
+  private choose(guess: Guess | null): void {
+    // Clicks between two gambles are ignored
+    const resolve = this.resolveChoice;
+    this.resolveChoice = undefined;
+    resolve?.(guess);
+  }
+
+  private createButton(
+    parent: PIXI.Container,
+    label: string,
+    colour: number,
+    x: number,
+    y: number,
+    onClick: () => void,
+    width: number = 160
+  ): void {
+    const button = new PIXI.Graphics();
+    button.beginFill(colour);
+    button.drawRoundedRect(0, 0, width, 50, 10);
+    button.endFill();
+    button.position.set(x, y);
+    button.interactive = true;
+    button.cursor = "pointer";
+    button.on("pointerdown", onClick);
+    parent.addChild(button);
+
+    const text = new PIXI.Text(label, {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffffff,
+      fontWeight: "bold",
+    });
+    text.anchor.set(0.5);
+    text.position.set(width / 2, 25);
+    button.addChild(text);
+  }
+}
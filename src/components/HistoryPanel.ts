@@ -0,0 +1,357 @@
+import * as PIXI from "pixi.js";
+import { AssetManager } from "../managers/AssetManager";
+import { ASSET_NAMES, SYMBOLS_CONFIG } from "../config/assets.config";
+import { GAME_CONFIG } from "../config/game.config";
+import { RoundFeature, RoundRecord } from "../services/history/RoundHistory";
+import { formatCurrency } from "../utils/currency";
+import { LINE_COLOURS } from "./WinPresenter";
+
+const FEATURE_NAMES: Record<RoundFeature, string> = {
+  freeSpins: "Free spins",
+  holdAndWin: "Hold & Win",
+  pickBonus: "Pick bonus",
+  gamble: "Gamble",
+};
+
+/**
+ * Modal list of the recent rounds. Clicking a round shows its detail with
+ * the grid it landed on and its wins marked.
+ */
+export class HistoryPanel extends PIXI.Container {
+  private readonly PANEL_WIDTH = 760;
+  private readonly PANEL_HEIGHT = 560;
+  private readonly ROW_HEIGHT = 44;
+  private readonly ROWS_PER_PAGE = 8;
+  private readonly CELL_SIZE = 60;
+  // Wins listed beside the grid, the rest are only marked on it
+  private readonly MAX_WIN_LINES = 6;
+
+  private records: readonly RoundRecord[];
+  private page = 0;
+  private panel: PIXI.Graphics;
+  private listView = new PIXI.Container();
+  private detailView = new PIXI.Container();
+  private resolveClose?: () => void;
+
+  constructor(
+    screenWidth: number,
+    screenHeight: number,
+    records: readonly RoundRecord[]
+  ) {
+    super();
+    this.records = records;
+
+    // Dimmed backdrop that swallows clicks
+    const backdrop = new PIXI.Graphics();
+    backdrop.beginFill(0x000000, 0.6);
+    backdrop.drawRect(0, 0, screenWidth, screenHeight);
+    backdrop.endFill();
+    backdrop.interactive = true;
+    this.addChild(backdrop);
+
+    this.panel = new PIXI.Graphics();
+    this.panel.lineStyle(4, 0x7da0dd);
+    this.panel.beginFill(0x23193c);
+    this.panel.drawRoundedRect(0, 0, this.PANEL_WIDTH, this.PANEL_HEIGHT, 16);
+    this.panel.endFill();
+    this.panel.position.set(
+      (screenWidth - this.PANEL_WIDTH) / 2,
+      (screenHeight - this.PANEL_HEIGHT) / 2
+    );
+    this.addChild(this.panel);
+
+    const titleText = new PIXI.Text("HISTORY", {
+      fontFamily: "Arial",
+      fontSize: 36,
+      fill: 0xffff00,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 4,
+    });
+    titleText.anchor.set(0.5, 0);
+    titleText.position.set(this.PANEL_WIDTH / 2, 20);
+    this.panel.addChild(titleText);
+
+    this.panel.addChild(this.listView, this.detailView);
+    this.showList();
+  }
+
+  /**
+   * Resolves when the player closes the panel
+   */
+  public waitForClose(): Promise<void> {
+    return new Promise((resolve) => {
+      this.resolveClose = resolve;
+    });
+  }
+
+  /**
+   * Remove the panel from its parent
+   */
+  public close(): void {
+    if (this.parent) {
+      this.parent.removeChild(this);
+    }
+    this.destroy({ children: true });
+  }
+
+  private finish(): void {
+    const resolve = this.resolveClose;
+    this.resolveClose = undefined;
+    resolve?.();
+  }
+
+  /**
+   * One page of rounds, newest first
+   */
+  private showList(): void {
+    this.detailView
+      .removeChildren()
+      .forEach((child) => child.destroy({ children: true }));
+    this.detailView.visible = false;
+    this.listView
+      .removeChildren()
+      .forEach((child) => child.destroy({ children: true }));
+    this.listView.visible = true;
+
+    if (this.records.length === 0) {
+      const emptyText = this.createText("No rounds played yet", 24);
+      emptyText.anchor.set(0.5);
+      emptyText.position.set(this.PANEL_WIDTH / 2, this.PANEL_HEIGHT / 2);
+      this.listView.addChild(emptyText);
+    }
+
+    const first = this.page * this.ROWS_PER_PAGE;
+    this.records
+      .slice(first, first + this.ROWS_PER_PAGE)
+      .forEach((record, index) => this.createRow(record, index));
+
+    const buttonY = this.PANEL_HEIGHT - 80;
+    const pageCount = Math.ceil(this.records.length / this.ROWS_PER_PAGE);
+    if (this.page > 0) {
+      this.createButton(this.listView, "NEWER", 0x3a2d5c, 40, buttonY, () => {
+        this.page--;
+        this.showList();
+      });
+    }
+    if (this.page < pageCount - 1) {
+      this.createButton(this.listView, "OLDER", 0x3a2d5c, 220, buttonY, () => {
+        this.page++;
+        this.showList();
+      });
+    }
+    this.createButton(
+      this.listView,
+      "CLOSE",
+      0x555555,
+      this.PANEL_WIDTH - 200,
+      buttonY,
+      () => this.finish()
+    );
+  }
+
+  private createRow(record: RoundRecord, index: number): void {
+    const row = new PIXI.Graphics();
+    row.beginFill(index % 2 === 0 ? 0x3a2d5c : 0x2e2350);
+    row.drawRoundedRect(0, 0, this.PANEL_WIDTH - 80, this.ROW_HEIGHT - 6, 8);
+    row.endFill();
+    row.position.set(40, 90 + index * this.ROW_HEIGHT);
+    row.interactive = true;
+    row.cursor = "pointer";
+    row.on("pointerdown", () => this.showDetail(record));
+    this.listView.addChild(row);
+
+    const columns: [string, number][] = [
+      [new Date(record.timestamp).toLocaleString(), 15],
+      [`Bet ${formatCurrency(record.bet)}`, 270],
+      [`Win ${formatCurrency(record.totalWin)}`, 420],
+      [
+        record.features.length + record.jackpotsWon.length > 0 ? "★" : "",
+        this.PANEL_WIDTH - 110,
+      ],
+    ];
+    columns.forEach(([label, x]) => {
+      const text = this.createText(label, 20);
+      text.anchor.set(0, 0.5);
+      text.position.set(x, (this.ROW_HEIGHT - 6) / 2);
+      row.addChild(text);
+    });
+  }
+
+  /**
+   * A round's grid with its wins marked, and what it cost and paid
+   */
+  private showDetail(record: RoundRecord): void {
+    this.listView.visible = false;
+    this.detailView.visible = true;
+
+    const grid = this.createMiniGrid(record);
+    grid.position.set(40, 90);
+    this.detailView.addChild(grid);
+
+    const features = [
+      ...record.features.map((feature) => FEATURE_NAMES[feature]),
+      ...record.jackpotsWon.map((tier) => `${tier} jackpot`),
+    ];
+    const lines = [
+      `Round ${record.roundId}`,
+      new Date(record.timestamp).toLocaleString(),
+      "",
+      GAME_CONFIG.winEvaluation === "lines"
+        ? `Bet: ${formatCurrency(record.bet)} (${record.lines} lines)`
+        : `Bet: ${formatCurrency(record.bet)}`,
+      `Win: ${formatCurrency(record.totalWin)}`,
+      `Features: ${features.length > 0 ? features.join(", ") : "none"}`,
+      "",
+      `Balance before: ${formatCurrency(record.balanceBefore)}`,
+      `Balance after: ${formatCurrency(record.balanceAfter)}`,
+      "",
+    ];
+    const wins = [
+      ...record.winningLines.map(
+        (line) =>
+          `Line ${line.lineNumber}: ${line.count}x ${line.symbols[0]} ${formatCurrency(line.payout)}`
+      ),
+      ...record.waysWins.map(
+        (win) =>
+          `${win.ways} ways ${win.reelCount}x ${win.symbol} ${formatCurrency(win.payout)}`
+      ),
+    ];
+    lines.push(...wins.slice(0, this.MAX_WIN_LINES));
+    if (wins.length > this.MAX_WIN_LINES) {
+      lines.push(`+${wins.length - this.MAX_WIN_LINES} more`);
+    }
+    const infoText = this.createText(lines.join("\n"), 18);
+    infoText.position.set(Math.max(grid.width + 70, 360), 90);
+    this.detailView.addChild(infoText);
+
+    this.createButton(
+      this.detailView,
+      "BACK",
+      0x555555,
+      this.PANEL_WIDTH - 200,
+      this.PANEL_HEIGHT - 80,
+      () => this.showList()
+    );
+  }
+
+  /**
+   * Static copy of the landed grid: winning lines drawn through their cells,
+   * ways wins outlined
+   */
+  private createMiniGrid(record: RoundRecord): PIXI.Container {
+    const symbolsSpritesheet = AssetManager.getInstance().getSpritesheet(
+      ASSET_NAMES.SYMBOLS
+    );
+    const size = this.CELL_SIZE;
+    const tallest = Math.max(...record.reelSymbols.map((reel) => reel.length));
+    // Shorter reels are centred, as on the slot machine
+    const cellCentre = (reel: number, row: number) => ({
+      x: reel * size + size / 2,
+      y:
+        ((tallest - record.reelSymbols[reel].length) * size) / 2 +
+        row * size +
+        size / 2,
+    });
+
+    const grid = new PIXI.Container();
+    record.reelSymbols.forEach((reel, reelIndex) =>
+      reel.forEach((symbol, row) => {
+        const { x, y } = cellCentre(reelIndex, row);
+        const cell = new PIXI.Graphics();
+        cell.lineStyle(1, 0x7da0dd, 0.5);
+        cell.beginFill(0x120c22);
+        cell.drawRect(-size / 2, -size / 2, size, size);
+        cell.endFill();
+        cell.position.set(x, y);
+        grid.addChild(cell);
+
+        const filename =
+          SYMBOLS_CONFIG[symbol as keyof typeof SYMBOLS_CONFIG]?.filename;
+        const texture = filename && symbolsSpritesheet?.textures[filename];
+        if (texture) {
+          const sprite = new PIXI.Sprite(texture);
+          sprite.anchor.set(0.5);
+          sprite.scale.set(
+            (size * 0.9) / Math.max(texture.width, texture.height)
+          );
+          cell.addChild(sprite);
+        } else {
+          const text = this.createText(symbol.slice(0, 4), 14);
+          text.anchor.set(0.5);
+          cell.addChild(text);
+        }
+      })
+    );
+
+    const marks = new PIXI.Graphics();
+    record.winningLines.forEach((line, index) => {
+      const colour = LINE_COLOURS[index % LINE_COLOURS.length];
+      const cells = line.positions
+        .slice(0, line.count)
+        .map((row, reel) => cellCentre(reel, row));
+
+      marks.lineStyle(3, colour);
+      cells.forEach(({ x, y }) =>
+        marks.drawRect(x - size / 2 + 3, y - size / 2 + 3, size - 6, size - 6)
+      );
+      marks.lineStyle(4, colour);
+      marks.moveTo(cells[0].x, cells[0].y);
+      cells.slice(1).forEach(({ x, y }) => marks.lineTo(x, y));
+    });
+    record.waysWins.forEach((win, index) => {
+      marks.lineStyle(3, LINE_COLOURS[index % LINE_COLOURS.length]);
+      win.positions.forEach((rows, reel) =>
+        rows.forEach((row) => {
+          const { x, y } = cellCentre(reel, row);
+          marks.drawRect(
+            x - size / 2 + 3,
+            y - size / 2 + 3,
+            size - 6,
+            size - 6
+          );
+        })
+      );
+    });
+    grid.addChild(marks);
+
+    return grid;
+  }
+
+  private createText(label: string, fontSize: number): PIXI.Text {
+    return new PIXI.Text(label, {
+      fontFamily: "Arial",
+      fontSize,
+      fill: 0xffffff,
+    });
+  }
+
+  private createButton(
+    parent: PIXI.Container,
+    label: string,
+    colour: number,
+    x: number,
+    y: number,
+    onClick: () => void
+  ): void {
+    const button = new PIXI.Graphics();
+    button.beginFill(colour);
+    button.drawRoundedRect(0, 0, 160, 50, 10);
+    button.endFill();
+    button.position.set(x, y);
+    button.interactive = true;
+    button.cursor = "pointer";
+    button.on("pointerdown", onClick);
+    parent.addChild(button);
+
+    const text = new PIXI.Text(label, {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffffff,
+      fontWeight: "bold",
+    });
+    text.anchor.set(0.5);
+    text.position.set(80, 25);
+    button.addChild(text);
+  }
+}
@@ -0,0 +1,79 @@
+import * as PIXI from "pixi.js";
+import { gsap } from "gsap";
+import { JackpotPool, JackpotTier } from "../core/types/type";
+import { formatCurrency } from "../utils/currency";
+
+interface Meter {
+  text: PIXI.Text;
+  // Value on display, tweened towards the pool value
+  shown: { value: number };
+}
+
+/**
+ * Row of progressive jackpot meters that count up as the pools grow
+ */
+export class JackpotMeters extends PIXI.Container {
+  private readonly METER_WIDTH = 220;
+  private readonly METER_HEIGHT = 48;
+  private readonly METER_GAP = 20;
+  private readonly TIER_COLOURS: Record<JackpotTier, number> = {
+    MINI: 0x3fa34d,
+    MINOR: 0x3f7fd0,
+    MAJOR: 0xb0409e,
+    GRAND: 0xd4a017,
+  };
+
+  private meters = new Map<JackpotTier, Meter>();
+
+  constructor(pools: JackpotPool[]) {
+    super();
+
+    pools.forEach((pool, i) => {
+      const frame = new PIXI.Graphics();
+      frame.lineStyle(3, 0xffffff);
+      frame.beginFill(this.TIER_COLOURS[pool.tier]);
+      frame.drawRoundedRect(0, 0, this.METER_WIDTH, this.METER_HEIGHT, 10);
+      frame.endFill();
+      frame.x = i * (this.METER_WIDTH + this.METER_GAP);
+      this.addChild(frame);
+
+      const text = new PIXI.Text("", {
+        fontFamily: "Arial",
+        fontSize: 22,
+        fill: 0xffffff,
+        fontWeight: "bold",
+        stroke: 0x000000,
+        strokeThickness: 3,
+      });
+      text.anchor.set(0.5);
+      text.position.set(this.METER_WIDTH / 2, this.METER_HEIGHT / 2);
+      frame.addChild(text);
+
+      const meter = { text, shown: { value: pool.value } };
+      this.meters.set(pool.tier, meter);
+      this.showValue(pool.tier, meter);
+    });
+  }
+
+  /**
+   * Count each meter up (or down, after a win) to its pool's value
+   */
+  public update(pools: JackpotPool[]): void {
+    for (const pool of pools) {
+      const meter = this.meters.get(pool.tier);
+      if (!meter) continue;
+
+      gsap.killTweensOf(meter.shown);
+      gsap.to(meter.shown, {
+        value: pool.value,
+        duration: 0.8,
+        ease: "power1.out",
+        onUpdate: () => this.showValue(pool.tier, meter),
+      });
+    }
+  }
+
+  private showValue(tier: JackpotTier, meter: Meter): void {
+    meter.text.text = `${tier} ${formatCurrency(meter.shown.value)}`;
+  }
+}
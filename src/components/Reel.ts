@@ -1,34 +1,58 @@
 import * as PIXI from "pixi.js";
+import { gsap } from "gsap";
 import { AssetManager } from "../managers/AssetManager";
 import { ASSET_NAMES, SYMBOLS_CONFIG } from "../config/assets.config";
 import { Symbol } from "./Symbol";
 import { layout } from "../config/layout.config";
-
-const VISIBLE_SYMBOLS = 3;
-const EXTRA_SYMBOLS = 2; // for smooth scrolling
+import { wrapStripIndex } from "../math/reelStrips";
+import { WILD } from "../math/wilds";
+import { GAME_CONFIG } from "../config/game.config";
+import { wait } from "../utils/wait";
+import {
+  DEFAULT_SPIN_PROFILE,
+  SPIN_PROFILES,
+  SpinProfile,
+} from "../config/spinProfiles.config";
+
+const EXTRA_SYMBOLS = 2; // one above and one below the window, for smooth scrolling
 
 export class Reel extends PIXI.Container {
+  // Sorted top to bottom, the first one sits above the visible window
   private symbols: Symbol[] = [];
   private assetManager = AssetManager.getInstance();
-  private symbolTextures: PIXI.Texture[] = [];
-  private symbolTypes: string[] = [];
+  private symbolTextures = new Map<string, PIXI.Texture>();
+
+  private strip: string[];
+  private rows: number;
+  private topIndex = 0; // strip index of the top (hidden) symbol
+  private stopIndex: number; // strip index landing on the top visible row
+
+  private readonly ANTICIPATION_SPEED = 20;
+  private readonly ANTICIPATION_DECELERATION = 0.5;
+  // Overshoot of a slam stop, in symbols
+  private readonly SLAM_BOUNCE = 0.25;
 
   private isSpinning = false;
   private spinSpeed = 0;
-  private targetSpeed = 50;
-  private acceleration = 2;
-  private deceleration = 1;
+  private profile: SpinProfile = SPIN_PROFILES[DEFAULT_SPIN_PROFILE];
+  private targetSpeed = this.profile.topSpeed;
+  private deceleration = this.profile.deceleration;
   private direction = 1; // 1 for down, -1 for up
 
-  private targetSymbols: string[] = [];
-  private addedCount = 0;
   private isSlowingDown = false;
   private isStopping = false;
   private blurFilter: PIXI.BlurFilter;
 
-  constructor() {
+  /**
+   * @param rows Visible rows, 1 makes a single-cell reel
+   */
+  constructor(strip: string[], stopIndex: number, rows: number) {
     super();
 
+    this.strip = strip;
+    this.rows = rows;
+    this.stopIndex = wrapStripIndex(strip, stopIndex);
+
     this.blurFilter = new PIXI.BlurFilter(0);
     this.blurFilter.blurY = 0;
     this.filters = [this.blurFilter];
@@ -55,53 +79,165 @@ export class Reel extends PIXI.Container {
     Object.entries(SYMBOLS_CONFIG).forEach(([key, config]) => {
       const texture = symbolsSpritesheet.textures[config.filename];
       if (texture) {
-        this.symbolTextures.push(texture);
-        this.symbolTypes.push(key);
+        this.symbolTextures.set(key, texture);
       }
     });
   }
 
-  /** Create initial symbols */
+  /** Create initial symbols from the strip around the stop index */
   private create(): void {
-    const total = VISIBLE_SYMBOLS + EXTRA_SYMBOLS;
+    const total = this.rows + EXTRA_SYMBOLS;
+    this.topIndex = wrapStripIndex(this.strip, this.stopIndex - 1);
+
     for (let i = 0; i < total; i++) {
-      const randomIndex = Math.floor(
-        Math.random() * this.symbolTextures.length
-      );
-      const texture = this.symbolTextures[randomIndex];
-      const symbolType = this.symbolTypes[randomIndex];
-      const value = Object.values(SYMBOLS_CONFIG)[randomIndex].value;
-
-      const symbol = new Symbol(texture, symbolType, value);
-      symbol.scaleToFit(layout.SYMBOL_SIZE, layout.SYMBOL_SIZE);
-      symbol.center(layout.REEL_WIDTH, layout.SYMBOL_SIZE);
-      symbol.y = i * layout.SYMBOL_SIZE;
+      const symbolType =
+        this.strip[wrapStripIndex(this.strip, this.topIndex + i)];
+      const symbol = this.createSymbol(symbolType);
+      symbol.y = (i - 1) * layout.SYMBOL_SIZE;
 
       this.symbols.push(symbol);
       this.addChild(symbol);
     }
   }
 
+  /**
+   * Create a symbol sized and centred for a cell of this reel.
+   * Also used for symbols drawn over the reel, like sticky wilds.
+   */
+  public createSymbol(symbolType: string): Symbol {
+    const symbol = new Symbol(
+      this.getSymbolTexture(symbolType),
+      symbolType,
+      this.getSymbolValue(symbolType)
+    );
+    symbol.scaleToFit(layout.SYMBOL_SIZE, layout.SYMBOL_SIZE);
+    symbol.center(layout.REEL_WIDTH, layout.SYMBOL_SIZE);
+    symbol.setMultiplier(this.getMultiplier(symbolType));
+    return symbol;
+  }
+
+  /**
+   * Turn every visible symbol into a wild, popping them top to bottom
+   */
+  public async expandWild(): Promise<void> {
+    const visible = this.getVisibleSymbols();
+    await Promise.all(
+      visible.map(async (symbol, row) => {
+        await wait(this.paced(row * 0.1));
+        if (symbol.symbolType !== WILD) this.setSymbolType(symbol, WILD);
+        await symbol.pop(1.25, this.paced(0.2));
+      })
+    );
+  }
+
+  /**
+   * Tumble the visible window: remove the symbols on `removedRows`, drop the
+   * ones above into the gaps and let `column` (the resulting window, top to
+   * bottom) fall in from above.
+   */
+  public async cascade(removedRows: number[], column: string[]): Promise<void> {
+    const visible = this.getVisibleSymbols();
+    const removed = visible.filter((_, row) => removedRows.includes(row));
+    const kept = visible.filter((_, row) => !removedRows.includes(row));
+
+    await Promise.all(removed.map((symbol) => symbol.explode(this.paced(0.3))));
+
+    // Removed symbols come back as the new ones, stacked above the window
+    removed.forEach((symbol, i) => {
+      symbol.resetSprite();
+      this.setSymbolType(symbol, column[i]);
+      symbol.y = (i - removed.length) * layout.SYMBOL_SIZE;
+    });
+
+    const dropped = [...removed, ...kept];
+    this.symbols.splice(1, this.rows, ...dropped);
+
+    await Promise.all(
+      dropped.map(
+        (symbol, row) =>
+          new Promise<void>((resolve) => {
+            gsap.to(symbol, {
+              y: row * layout.SYMBOL_SIZE,
+              duration: this.paced(0.4),
+              delay: this.paced((dropped.length - row) * 0.05),
+              ease: "bounce.out",
+              onComplete: () => resolve(),
+            });
+          })
+      )
+    );
+  }
+
+  /**
+   * Drop to a slower spin and ease into the stop more gently, building
+   * suspense. Lasts for the rest of the spin.
+   */
+  public anticipate(): void {
+    this.targetSpeed = this.ANTICIPATION_SPEED;
+    this.deceleration = this.ANTICIPATION_DECELERATION;
+  }
+
+  /** Speeds the reel runs and presents wins at, from its next spin on */
+  public setProfile(profile: SpinProfile): void {
+    this.profile = profile;
+  }
+
   /** Start spinning */
   public spin(): void {
+    this.targetSpeed = this.profile.topSpeed;
+    this.deceleration = this.profile.deceleration;
     this.isSpinning = true;
     this.isSlowingDown = false;
     this.isStopping = false;
     this.spinSpeed = 0;
   }
 
-  /** Define final target symbols (top-to-bottom visible) */
-  public setTargetSymbols(targets: string[]): void {
-    if (targets.length !== VISIBLE_SYMBOLS) {
-      console.error(
-        `Expected ${VISIBLE_SYMBOLS} target symbols, got ${targets.length}`
-      );
-      return;
+  /**
+   * Define the strip index to land on the top visible row.
+   * The strip cursor is moved so the symbols scrolling in while slowing down
+   * lead into the target, with real strip neighbours above and below it.
+   */
+  public setTargetStop(stopIndex: number): void {
+    this.stopIndex = wrapStripIndex(this.strip, stopIndex);
+    this.isSlowingDown = true;
+
+    // Rows that will still scroll past before the reel comes to rest
+    let travel = 0;
+    for (
+      let speed = this.spinSpeed - this.deceleration;
+      speed > 0;
+      speed -= this.deceleration
+    ) {
+      travel += speed;
     }
+    const rows = Math.round(travel / layout.SYMBOL_SIZE);
 
-    this.targetSymbols = targets;
-    this.addedCount = 0;
-    this.isSlowingDown = true;
+    this.topIndex = wrapStripIndex(
+      this.strip,
+      this.stopIndex - 1 + rows * this.direction
+    );
+  }
+
+  /**
+   * Land on `stopIndex` right away, skipping the slow down.
+   * The symbols are placed just past their resting spot and settle back
+   * with the final alignment, for a short bounce.
+   */
+  public slamStop(stopIndex: number): void {
+    if (!this.isSpinning) return;
+
+    this.stopIndex = wrapStripIndex(this.strip, stopIndex);
+    this.isSpinning = false;
+    this.isSlowingDown = false;
+    this.isStopping = true;
+    this.spinSpeed = 0;
+    this.blurFilter.blurY = 0;
+
+    this.showStop();
+    this.symbols.forEach((symbol, i) => {
+      symbol.y =
+        (i - 1 + this.SLAM_BOUNCE * this.direction) * layout.SYMBOL_SIZE;
+    });
   }
 
   /** Frame update */
@@ -111,9 +247,8 @@ export class Reel extends PIXI.Container {
     // Smooth final alignment
     if (this.isStopping) {
       let allInPlace = true;
-      const sortedSymbols = [...this.symbols].sort((a, b) => a.y - b.y);
-      sortedSymbols.forEach((symbol, i) => {
-        const targetY = i * layout.SYMBOL_SIZE;
+      this.symbols.forEach((symbol, i) => {
+        const targetY = (i - 1) * layout.SYMBOL_SIZE;
         if (Math.abs(symbol.y - targetY) > 0.5) {
           symbol.y += (targetY - symbol.y) * 0.2 * delta;
           allInPlace = false;
@@ -126,12 +261,15 @@ export class Reel extends PIXI.Container {
       return;
     }
 
-    // Accelerate to target speed
-    if (!this.isSlowingDown && this.spinSpeed < this.targetSpeed) {
-      this.spinSpeed = Math.min(
-        this.spinSpeed + this.acceleration,
-        this.targetSpeed
-      );
+    // Accelerate (or ease back) to target speed
+    if (!this.isSlowingDown && this.spinSpeed !== this.targetSpeed) {
+      this.spinSpeed =
+        this.spinSpeed < this.targetSpeed
+          ? Math.min(
+              this.spinSpeed + this.profile.acceleration,
+              this.targetSpeed
+            )
+          : Math.max(this.spinSpeed - this.deceleration, this.targetSpeed);
       this.blurFilter.blurY = Math.min(this.spinSpeed / 2, 15);
     }
 
@@ -144,22 +282,7 @@ export class Reel extends PIXI.Container {
       if (this.spinSpeed === 0 && !this.isStopping) {
         this.isSpinning = false;
         this.isStopping = true;
-
-        // Set correct textures on visible symbols at start of stopping animation
-        const visibleSymbols = this.symbols
-          .filter((s) => s.y >= 0 && s.y < VISIBLE_SYMBOLS * layout.SYMBOL_SIZE)
-          .sort((a, b) => a.y - b.y);
-        for (let i = 0; i < visibleSymbols.length && i < VISIBLE_SYMBOLS; i++) {
-          const targetKey = this.targetSymbols[i];
-          const cfg = SYMBOLS_CONFIG[targetKey as keyof typeof SYMBOLS_CONFIG];
-          const sheet = this.assetManager.getSpritesheet(ASSET_NAMES.SYMBOLS);
-
-          if (sheet) {
-            console.log(`159 row: ${cfg.filename}`);
-            const texture = sheet.textures[cfg.filename];
-            visibleSymbols[i].setTexture(texture, targetKey, cfg.value);
-          }
-        }
+        this.showStop();
         return;
       }
     }
@@ -173,68 +296,86 @@ export class Reel extends PIXI.Container {
     this.recycleSymbols();
   }
 
-  /** Recycle symbols that leave bottom/top, inject target symbols when slowing */
+  /**
+   * Wrap symbols that leave the window to the other end,
+   * giving them the next symbol on the strip in the direction of travel
+   */
   private recycleSymbols(): void {
-    if (this.direction === 1) {
-      // Down spin: recycle when top symbol goes below bottom
-      const firstSymbol = this.symbols[0];
-      const totalHeight =
-        layout.SYMBOL_SIZE * (VISIBLE_SYMBOLS + EXTRA_SYMBOLS - 1);
+    const size = layout.SYMBOL_SIZE;
 
-      if (firstSymbol.y > totalHeight) {
-        this.symbols.shift();
-        this.removeChild(firstSymbol);
-        this.addNewSymbolAtBottom();
+    if (this.direction === 1) {
+      // Down spin: the bottom symbol moves above the top one
+      let lastSymbol = this.symbols[this.symbols.length - 1];
+      while (lastSymbol.y >= (this.rows + 1) * size) {
+        this.symbols.pop();
+        this.topIndex = wrapStripIndex(this.strip, this.topIndex - 1);
+        lastSymbol.y = this.symbols[0].y - size;
+        this.setSymbolType(lastSymbol, this.strip[this.topIndex]);
+        this.symbols.unshift(lastSymbol);
+        lastSymbol = this.symbols[this.symbols.length - 1];
       }
     } else {
-      // Up spin: recycle when top symbol goes above top
-      const firstSymbol = this.symbols[0];
-
-      if (firstSymbol.y < -layout.SYMBOL_SIZE) {
+      // Up spin: the top symbol moves below the bottom one
+      let firstSymbol = this.symbols[0];
+      while (firstSymbol.y <= -2 * size) {
         this.symbols.shift();
-        this.removeChild(firstSymbol);
-        this.addNewSymbolAtBottom();
+        this.topIndex = wrapStripIndex(this.strip, this.topIndex + 1);
+        firstSymbol.y = this.symbols[this.symbols.length - 1].y + size;
+        this.setSymbolType(
+          firstSymbol,
+          this.strip[
+            wrapStripIndex(this.strip, this.topIndex + this.symbols.length)
+          ]
+        );
+        this.symbols.push(firstSymbol);
+        firstSymbol = this.symbols[0];
       }
     }
   }
 
-  private addNewSymbolAtBottom(): void {
-    const lastSymbol = this.symbols[this.symbols.length - 1];
-    let newTexture: PIXI.Texture;
-    let newType: string;
-    let newValue: number;
-
-    const sheet = this.assetManager.getSpritesheet(ASSET_NAMES.SYMBOLS);
-
-    if (this.isSlowingDown && this.targetSymbols.length > 0) {
-      // When slowing, fill next symbols from targetSymbols (in reverse order for down)
-      const nextIndex = this.targetSymbols.length - 1 - this.addedCount;
-      const targetKey = this.targetSymbols[nextIndex];
-      const cfg = SYMBOLS_CONFIG[targetKey as keyof typeof SYMBOLS_CONFIG];
-      console.log(`213 row: ${cfg.filename}`);
-      newTexture = sheet!.textures[cfg.filename];
-      newType = targetKey;
-      newValue = cfg.value;
-      this.addedCount++;
-    } else {
-      // Random symbol during spin
-      const randomIndex = Math.floor(
-        Math.random() * this.symbolTextures.length
-      );
-      newTexture = this.symbolTextures[randomIndex];
-      newType = this.symbolTypes[randomIndex];
-      newValue = Object.values(SYMBOLS_CONFIG)[randomIndex].value;
-    }
+  /** Make sure the reel shows the strip exactly around the stop index */
+  private showStop(): void {
+    this.topIndex = wrapStripIndex(this.strip, this.stopIndex - 1);
+    this.symbols.forEach((symbol, i) => {
+      const symbolType =
+        this.strip[wrapStripIndex(this.strip, this.topIndex + i)];
+      if (symbol.symbolType !== symbolType) {
+        this.setSymbolType(symbol, symbolType);
+      }
+    });
+  }
 
-    const newSymbol = new Symbol(newTexture, newType, newValue);
-    newSymbol.scaleToFit(layout.SYMBOL_SIZE, layout.SYMBOL_SIZE);
-    newSymbol.center(layout.REEL_WIDTH, layout.SYMBOL_SIZE);
-    newSymbol.y =
-      lastSymbol.y +
-      (this.direction === 1 ? -layout.SYMBOL_SIZE : layout.SYMBOL_SIZE);
+  private setSymbolType(symbol: Symbol, symbolType: string): void {
+    const y = symbol.y;
+    symbol.setTexture(
+      this.getSymbolTexture(symbolType),
+      symbolType,
+      this.getSymbolValue(symbolType)
+    );
+    symbol.scaleToFit(layout.SYMBOL_SIZE, layout.SYMBOL_SIZE);
+    symbol.center(layout.REEL_WIDTH, layout.SYMBOL_SIZE);
+    symbol.setMultiplier(this.getMultiplier(symbolType));
+    symbol.setValueLabel(null);
+    symbol.y = y;
+  }
+
+  /**
+   * Duration of a win animation at the profile's presentation speed
+   */
+  private paced(seconds: number): number {
+    return seconds / this.profile.presentationSpeed;
+  }
 
-    this.symbols.push(newSymbol);
-    this.addChild(newSymbol);
+  private getSymbolTexture(symbolType: string): PIXI.Texture {
+    return this.symbolTextures.get(symbolType) ?? PIXI.Texture.EMPTY;
+  }
+
+  private getSymbolValue(symbolType: string): number {
+    return SYMBOLS_CONFIG[symbolType as keyof typeof SYMBOLS_CONFIG].value;
+  }
+
+  private getMultiplier(symbolType: string): number {
+    return symbolType === WILD ? GAME_CONFIG.wilds.multiplier : 1;
   }
 
   /** Final stop after smooth alignment */
@@ -246,9 +387,14 @@ export class Reel extends PIXI.Container {
     this.blurFilter.blurY = 0;
   }
 
-  /** Get the visible symbols */
+  /** Get the visible symbols, top to bottom */
   public getVisibleSymbols(): Symbol[] {
-    return this.symbols.slice(0, VISIBLE_SYMBOLS);
+    return this.symbols.slice(1, 1 + this.rows);
+  }
+
+  /** Strip index of the symbol on the top visible row */
+  public getStopIndex(): number {
+    return this.stopIndex;
   }
 
   /** Is the reel spinning */
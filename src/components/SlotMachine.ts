@@ -1,58 +1,154 @@
 import * as PIXI from "pixi.js";
 import { gsap } from "gsap";
 import { Reel } from "./Reel";
-import { SYMBOLS_CONFIG } from "../config/assets.config";
 import { EventEmitter } from "eventemitter3";
 import { layout } from "../config/layout.config";
+import { randomInt } from "../math/Rng";
+import { GRID } from "../math/grid";
+import {
+  DEFAULT_SPIN_PROFILE,
+  SPIN_PROFILES,
+  SpinProfile,
+} from "../config/spinProfiles.config";
+import { Anticipation, getAnticipations } from "../math/anticipation";
+import { RngService } from "../services/RngService";
+import {
+  CascadeStep,
+  CharacterColumn,
+  Coin,
+  HoldAndWinResult,
+  SpinRequest,
+  SpinResult,
+} from "../core/types/type";
+import { wait } from "../utils/wait";
+import { Symbol } from "./Symbol";
+import { WinPresenter } from "./WinPresenter";
+import { GAME_CONFIG } from "../config/game.config";
+import { WILD } from "../math/wilds";
+import { getWinningCells, roundAmount } from "../math/WinEvaluator";
+import {
+  OutcomeError,
+  OutcomeProvider,
+} from "../services/outcome/OutcomeProvider";
+import { formatCurrency } from "../utils/currency";
 
-export interface SpinResult {
-  reelSymbols: string[][];
-  winningLines: WinLine[];
-  totalWin: number;
+/**
+ * Payload of the "outcomeError" event
+ */
+export interface OutcomeErrorEvent {
+  reason: OutcomeError["reason"];
+  message: string;
+  bet: number;
+  // A free spin failed, no stake was taken for it
+  freeSpin: boolean;
+}
+
+/**
+ * Payload of the "cascade" event
+ */
+export interface CascadeEvent {
+  index: number;
+  step: CascadeStep;
+  // Win of the spin so far, cascades included
+  win: number;
 }
 
-export interface WinLine {
-  lineNumber: number;
-  symbols: string[];
-  count: number;
-  payout: number;
+/**
+ * Payload of the "respin" event
+ */
+export interface RespinEvent {
+  respinsLeft: number;
+  coins: number;
 }
 
+/**
+ * Payload of the "anticipation" event, sent when a reel starts its longer
+ * spin, and of "anticipationEnd", sent once it has landed
+ */
+export type AnticipationEvent = Anticipation;
+
+/**
+ * Plays the character animations of a spin, resolving once they have finished
+ */
+export type CharacterPresenter = (columns: CharacterColumn[]) => Promise<void>;
+
 export class SlotMachine extends PIXI.Container {
   private reels: Reel[] = [];
-  private readonly NUM_REELS = 5;
-  private readonly NUM_ROWS = 3;
+  // Seconds between the spins of a sequence
+  private readonly SEQUENCE_PAUSE = 0.8;
+  // Seconds to show a win before its symbols tumble
+  private readonly CASCADE_PAUSE = 0.6;
+  // Extra seconds an anticipated reel spins before it starts to stop
+  private readonly ANTICIPATION_TIME = 1.5;
 
   private reelContainer: PIXI.Container;
-  private maskGraphics: PIXI.Graphics | undefined;
+  // Sticky wilds drawn over the reels, keyed by "reel:row"
+  private stickyLayer: PIXI.Container = new PIXI.Container();
+  private stickySymbols = new Map<string, Symbol>();
+  // Independent single-cell reels used by Hold & Win, [reel][row]
+  private cellLayer: PIXI.Container = new PIXI.Container();
+  private cellReels: Reel[][] = [];
+  // Glows around anticipated reels, outside the mask
+  private anticipationLayer: PIXI.Container = new PIXI.Container();
+  private winPresenter: WinPresenter;
 
   private isSpinning: boolean = false;
+  // Timing of the spin under way, and of the next one
+  private profile: SpinProfile = SPIN_PROFILES[DEFAULT_SPIN_PROFILE];
+  private nextProfile: SpinProfile = this.profile;
+  // From the start of a spin until its reels have landed
+  private reelsRunning = false;
+  private startTimeline?: gsap.core.Timeline;
+  private slamStopRequested = false;
+  // Resolves on a slam stop, cutting the spin's waits short
+  private slamStopSignal: Promise<void> = Promise.resolve();
+  private resolveSlamStop?: () => void;
+  private outcomeProvider: OutcomeProvider;
+  private characterPresenter: CharacterPresenter | null = null;
+  // Presentation randomness, outcomes draw from their own stream
+  private rng = RngService.getInstance().animation;
   public events: EventEmitter = new EventEmitter();
 
-  constructor() {
+  constructor(outcomeProvider: OutcomeProvider) {
     super();
 
+    this.outcomeProvider = outcomeProvider;
+
     this.reelContainer = new PIXI.Container();
     this.addChild(this.reelContainer);
 
     this.createReels();
+    this.reelContainer.addChild(this.stickyLayer);
+    this.reelContainer.addChild(this.cellLayer);
     this.createMask();
+    this.winPresenter = new WinPresenter({
+      getSymbol: (reel, row) => this.getGridSymbol(reel, row),
+      getCellCentre: (reel, row) => ({
+        x: this.reels[reel].x + layout.REEL_WIDTH / 2,
+        y: this.reels[reel].y + (row + 0.5) * layout.SYMBOL_SIZE,
+      }),
+    });
+    this.addChild(this.winPresenter);
+    this.addChild(this.anticipationLayer);
   }
 
   /**
-   * Create all 5 reels
+   * Create the reels of the configured grid, shorter reels centred vertically
    */
   private createReels(): void {
-    for (let i = 0; i < this.NUM_REELS; i++) {
-      const reel = new Reel();
+    const maxRows = Math.max(...GRID.rows);
+    for (let i = 0; i < this.reelCount; i++) {
+      const strip = GRID.strips[i];
+      const rows = GRID.rows[i];
+      const reel = new Reel(strip, randomInt(this.rng, strip.length), rows);
       reel.x = i * layout.REEL_WIDTH;
-      reel.y = 0;
+      reel.y = ((maxRows - rows) * layout.SYMBOL_SIZE) / 2;
 
       this.reels.push(reel);
       this.reelContainer.addChild(reel);
 
       // Add separator after each reel except the last one
-      if (i < this.NUM_REELS - 1) {
+      if (i < this.reelCount - 1) {
         const separatorTexture = createGradientTexture(
           4, // width of the separator
           this.dimensions.height,
@@ -69,191 +165,487 @@ export class SlotMachine extends PIXI.Container {
   }
 
   /**
-   * Create a mask to only show 3 rows of symbols
+   * Create a mask to only show the visible rows of each reel
    */
   private createMask(): void {
-    this.maskGraphics = new PIXI.Graphics();
-    this.maskGraphics.beginFill(0xffffff);
-    this.maskGraphics.drawRect(
-      0,
-      0,
-      this.NUM_REELS * layout.REEL_WIDTH,
-      this.NUM_ROWS * layout.SYMBOL_SIZE
+    const mask = new PIXI.Graphics();
+    mask.beginFill(0xffffff);
+    this.reels.forEach((reel, i) =>
+      mask.drawRect(
+        reel.x,
+        reel.y,
+        layout.REEL_WIDTH,
+        GRID.rows[i] * layout.SYMBOL_SIZE
+      )
     );
-    this.maskGraphics.endFill();
+    mask.endFill();
 
-    this.addChild(this.maskGraphics);
-    this.reelContainer.mask = this.maskGraphics;
+    this.addChild(mask);
+    this.reelContainer.mask = mask;
   }
 
   /**
    * Start spinning all reels
+   * Reels keep spinning until the outcome provider has answered.
+   * Resolves with null if no outcome could be obtained.
    */
-  public async spin(): Promise<SpinResult> {
+  public async spin(request: SpinRequest): Promise<SpinResult | null> {
     if (this.isSpinning) {
       console.warn("Already spinning!");
-      return {
-        reelSymbols: [],
-        winningLines: [],
-        totalWin: 0,
-      };
+      return null;
     }
 
     this.isSpinning = true;
+    this.winPresenter.clear();
+    RngService.getInstance().beginSpin();
+
+    this.profile = this.nextProfile;
+    this.reels.forEach((reel) => reel.setProfile(this.profile));
 
     // Set random direction for each reel
     this.reels.forEach((reel) => {
-      reel.setDirection(Math.random() > 0.5 ? 1 : -1);
+      reel.setDirection(this.rng.random() > 0.5 ? 1 : -1);
     });
 
+    this.slamStopRequested = false;
+    this.slamStopSignal = new Promise((resolve) => {
+      this.resolveSlamStop = resolve;
+    });
+    this.reelsRunning = true;
+
     const tl = gsap.timeline();
+    this.startTimeline = tl;
 
     // Start reels with staggered delay
     this.reels.forEach((_, i) => {
-      tl.call(() => this.reels[i].spin(), [], i * 0.1);
+      tl.call(() => this.reels[i].spin(), [], i * this.profile.stagger);
     });
+    this.events.emit("reelsStart");
+
+    // Wait for realistic spin duration and for the outcome.
+    // A slam stop skips the wait, never the outcome.
+    const spinDuration =
+      this.profile.minSpinTime +
+      this.rng.random() * this.profile.spinTimeJitter;
+    let spinResult: SpinResult;
+    try {
+      [spinResult] = await Promise.all([
+        this.outcomeProvider.requestSpin(request),
+        this.waitOrSlamStop(tl.duration() + spinDuration),
+      ]);
+    } catch (error) {
+      const outcomeError =
+        error instanceof OutcomeError
+          ? error
+          : new OutcomeError("network", String(error));
+      console.error("Failed to get spin outcome:", outcomeError);
+
+      // Land back where the reels were - the round did not happen
+      await this.stopReels(this.reels.map((reel) => reel.getStopIndex()));
+      this.isSpinning = false;
+      this.events.emit("outcomeError", {
+        reason: outcomeError.reason,
+        message: outcomeError.message,
+        bet: request.bet,
+        freeSpin: request.freeSpin ?? false,
+      });
+      return null;
+    }
 
-    // Generate random outcome (in a real game, this comes from server)
-    const spinResult = this.generateSpinOutcome();
+    await this.stopReels(
+      spinResult.stopPositions,
+      getAnticipations(spinResult.reelSymbols, request)
+    );
+    await this.presentWildEffects(spinResult);
+    if (spinResult.characterColumns.length > 0 && this.characterPresenter) {
+      await this.characterPresenter(spinResult.characterColumns);
+    }
+    await this.presentCascades(spinResult);
+    this.winPresenter.show(
+      {
+        ...(spinResult.cascades[spinResult.cascades.length - 1] ?? spinResult),
+        scatterWin: spinResult.scatterWin,
+      },
+      this.profile.presentationSpeed
+    );
+    this.isSpinning = false;
+    return spinResult;
+  }
 
-    // Wait for realistic spin duration (2-4 seconds)
-    const spinDuration = 2 + Math.random() * 2;
-    tl.to({}, { duration: spinDuration }, "+=0");
+  /**
+   * Spin timing to use from the next spin on
+   */
+  public setSpinProfile(profile: SpinProfile): void {
+    this.nextProfile = profile;
+  }
 
-    // Stop reels with staggered delay
-    this.reels.forEach((_, i) => {
-      tl.call(
-        () => this.reels[i].setTargetSymbols(spinResult.reelSymbols[i]),
-        [],
-        "+=0.1"
-      );
-    });
+  /**
+   * Timing of the current (or last) spin, its wins are presented at this pace
+   */
+  public get spinProfile(): SpinProfile {
+    return this.profile;
+  }
 
-    // Wait for all to stop and calculate wins
-    return new Promise((resolve) => {
-      tl.call(() => {
-        this.waitForReelsToStop().then(() => {
-          spinResult.winningLines = this.calculateWins(spinResult.reelSymbols);
-          spinResult.totalWin = spinResult.winningLines.reduce(
-            (sum, line) => sum + line.payout,
-            0
-          );
-          this.isSpinning = false;
-          resolve(spinResult);
-        });
-      });
-    });
+  /**
+   * Land every reel on its result right away, e.g. on a second press of spin.
+   * Only while the reels of a spin are running; the result is unchanged.
+   */
+  public slamStop(): void {
+    if (!this.canSlamStop) return;
+
+    this.slamStopRequested = true;
+    // Reels not started yet start now, so they can land with the others
+    this.startTimeline?.progress(1);
+    this.resolveSlamStop?.();
+  }
+
+  public get canSlamStop(): boolean {
+    return this.reelsRunning && !this.slamStopRequested;
+  }
+
+  /**
+   * Ask a different provider for outcomes from the next spin on, e.g. one
+   * that replays a recorded round
+   */
+  public setOutcomeProvider(outcomeProvider: OutcomeProvider): void {
+    this.outcomeProvider = outcomeProvider;
+  }
+
+  /**
+   * Set who plays the character columns once the reels land, the spin waits
+   * for it before presenting the rest of the win
+   */
+  public setCharacterPresenter(presenter: CharacterPresenter | null): void {
+    this.characterPresenter = presenter;
+  }
+
+  /**
+   * Play spins back to back without player input, e.g. free spins.
+   * `next` supplies each request and returns null when the sequence is over;
+   * `onResult` runs after each spin lands, before the next one starts.
+   * Resolves false if a spin failed and the sequence was cut short.
+   */
+  public async runSpinSequence(
+    next: () => SpinRequest | null,
+    onResult: (result: SpinResult) => void | Promise<void>
+  ): Promise<boolean> {
+    for (let request = next(); request; request = next()) {
+      const result = await this.spin(request);
+      if (!result) return false;
+
+      await onResult(result);
+      await wait(this.paced(this.SEQUENCE_PAUSE));
+    }
+    return true;
   }
 
   /**
-   * Generate a random spin outcome
-   * In a real game, this would come from a backend server
+   * Stop reels with staggered delay on the given strip positions.
+   * An anticipated reel waits for the reels before it to land, then spins on
+   * slower inside a glow before it stops.
+   * A slam stop lands all the reels still running at once.
    */
-  private generateSpinOutcome(): SpinResult {
-    const reelSymbols: string[][] = [];
-
-    for (let i = 0; i < this.NUM_REELS; i++) {
-      const reelResult: string[] = [];
-      for (let j = 0; j < this.NUM_ROWS; j++) {
-        const randomSymbol = this.getRandomSymbol();
-        reelResult.push(randomSymbol);
+  private async stopReels(
+    stopPositions: number[],
+    anticipations: Anticipation[] = []
+  ): Promise<void> {
+    const landings: Promise<void>[] = [];
+
+    for (const [i, reel] of this.reels.entries()) {
+      if (this.slamStopRequested) break;
+
+      const anticipation = anticipations.find((a) => a.reel === i);
+      if (!anticipation) {
+        await this.waitOrSlamStop(this.profile.stagger);
+        reel.setTargetStop(stopPositions[i]);
+        continue;
       }
-      reelSymbols.push(reelResult);
+
+      await Promise.race([
+        waitUntil(() =>
+          this.reels.slice(0, i).every((other) => !other.spinning)
+        ),
+        this.slamStopSignal,
+      ]);
+      if (this.slamStopRequested) break;
+
+      const glow = this.startAnticipation(anticipation);
+      await this.waitOrSlamStop(this.ANTICIPATION_TIME);
+      reel.setTargetStop(stopPositions[i]);
+      landings.push(
+        waitUntil(() => !reel.spinning).then(() => {
+          gsap.killTweensOf(glow);
+          glow.destroy();
+          this.events.emit("anticipationEnd", anticipation);
+        })
+      );
     }
 
-    // Force a column win for testing
-    reelSymbols[0] = ["WOMAN", "WOMAN", "WOMAN"];
+    if (this.slamStopRequested) {
+      this.reels.forEach((reel, i) => reel.slamStop(stopPositions[i]));
+    }
 
-    return {
-      reelSymbols,
-      winningLines: [],
-      totalWin: 0,
-    };
+    await Promise.all([...landings, this.waitForReelsToStop()]);
+    this.reelsRunning = false;
+    this.startTimeline = undefined;
+    this.resolveSlamStop = undefined;
+    this.events.emit("reelsLanded");
   }
 
   /**
-   * Get a random symbol based on weights
+   * Duration of a win animation or pause at the profile's presentation speed
    */
-  private getRandomSymbol(): string {
-    const symbols = Object.entries(SYMBOLS_CONFIG);
-    const totalWeight = symbols.reduce(
-      (sum, [_, config]) => sum + config.weight,
-      0
+  private paced(seconds: number): number {
+    return seconds / this.profile.presentationSpeed;
+  }
+
+  /**
+   * Wait the given seconds, or less if the reels are slammed to a stop
+   */
+  private waitOrSlamStop(seconds: number): Promise<void> {
+    return Promise.race([wait(seconds), this.slamStopSignal]);
+  }
+
+  /**
+   * Slow the reel down and pulse a shaking glow around it
+   */
+  private startAnticipation(anticipation: Anticipation): PIXI.Graphics {
+    const reel = this.reels[anticipation.reel];
+    reel.anticipate();
+
+    const glow = new PIXI.Graphics();
+    glow.lineStyle(8, 0xffd700);
+    glow.drawRoundedRect(
+      0,
+      0,
+      layout.REEL_WIDTH,
+      GRID.rows[anticipation.reel] * layout.SYMBOL_SIZE,
+      12
     );
-    let random = Math.random() * totalWeight;
+    glow.position.set(reel.x, reel.y);
+    this.anticipationLayer.addChild(glow);
 
-    for (const [key, config] of symbols) {
-      random -= config.weight;
-      if (random <= 0) return key;
+    gsap.fromTo(
+      glow,
+      { alpha: 0.4 },
+      { alpha: 1, duration: 0.3, yoyo: true, repeat: -1 }
+    );
+    gsap.to(glow, {
+      x: reel.x + 3,
+      duration: 0.05,
+      yoyo: true,
+      repeat: -1,
+      ease: "none",
+    });
+
+    this.events.emit("anticipation", anticipation);
+    return glow;
+  }
+
+  /**
+   * Animate what the wild behaviours did to the landed grid:
+   * expanding reels, newly stuck wilds, then multiplier wilds that paid
+   */
+  private async presentWildEffects(result: SpinResult): Promise<void> {
+    await Promise.all(
+      result.expandedReels.map((reel) => this.reels[reel].expandWild())
+    );
+
+    await Promise.all(
+      result.stickyWilds
+        .filter(([reel, row]) => !this.stickySymbols.has(`${reel}:${row}`))
+        .map(([reel, row]) =>
+          this.addStickyWild(reel, row).pop(1.25, this.paced(0.2))
+        )
+    );
+
+    if (GAME_CONFIG.wilds.multiplier > 1) {
+      await Promise.all(
+        this.getPayingWilds(result).map(([reel, row]) =>
+          this.getGridSymbol(reel, row).pop(1.4, this.paced(0.3))
+        )
+      );
     }
+  }
 
-    return symbols[0][0]; // fallback
+  /**
+   * [reel, row] of every wild that is part of a win
+   */
+  private getPayingWilds(result: SpinResult): [number, number][] {
+    return getWinningCells(result.winningLines, result.waysWins).filter(
+      ([reel, row]) => result.evaluatedSymbols[reel][row] === WILD
+    );
   }
 
   /**
-   * Calculate wins from the spin result
-   * This is a simplified version - checks only horizontal lines
+   * Symbol showing in a cell, the sticky wild if one is held there
    */
-  private calculateWins(reelSymbols: string[][]): WinLine[] {
-    const winningLines: WinLine[] = [];
-
-    // Check for full column wins of MAN or WOMAN
-    for (let reel = 0; reel < this.NUM_REELS; reel++) {
-      const firstSymbol = reelSymbols[reel][0];
-      if (
-        (firstSymbol === "MAN" || firstSymbol === "WOMAN") &&
-        reelSymbols[reel].every((s) => s === firstSymbol)
-      ) {
-        console.log(`Full column win on reel ${reel + 1} with ${firstSymbol}`);
-        this.events.emit("columnWin", {
-          reelIndex: reel,
-          character: firstSymbol === "MAN" ? "Man" : "Woman",
-        });
-      }
+  private getGridSymbol(reel: number, row: number): Symbol {
+    return (
+      this.stickySymbols.get(`${reel}:${row}`) ??
+      this.reels[reel].getVisibleSymbols()[row]
+    );
+  }
+
+  /**
+   * Play the tumbles of a spin one after the other, marking the wins each
+   * one removes. Emits "cascade" with the step and the win so far after each
+   * one lands.
+   */
+  private async presentCascades(result: SpinResult): Promise<void> {
+    let win = roundAmount(
+      result.cascades.reduce((sum, step) => sum - step.win, result.totalWin)
+    );
+    const grids = [result, ...result.cascades];
+
+    for (const [index, step] of result.cascades.entries()) {
+      this.winPresenter.showAll(grids[index]);
+      await wait(this.paced(this.CASCADE_PAUSE));
+      this.winPresenter.clear();
+      await Promise.all(
+        this.reels.map((reel, i) => {
+          const rows = step.removed
+            .filter(([r]) => r === i)
+            .map(([, row]) => row);
+          return rows.length > 0
+            ? reel.cascade(rows, step.reelSymbols[i])
+            : Promise.resolve();
+        })
+      );
+
+      win = roundAmount(win + step.win);
+      this.events.emit("cascade", { index, step, win });
     }
+  }
 
-    // Check each row (3 paylines)
-    for (let row = 0; row < this.NUM_ROWS; row++) {
-      const lineSymbols: string[] = [];
+  private addStickyWild(reel: number, row: number): Symbol {
+    const symbol = this.reels[reel].createSymbol(WILD);
+    symbol.x += this.reels[reel].x;
+    symbol.y = this.reels[reel].y + row * layout.SYMBOL_SIZE;
+    this.stickyLayer.addChild(symbol);
+    this.stickySymbols.set(`${reel}:${row}`, symbol);
+    return symbol;
+  }
 
-      // Get symbols from each reel for this row
-      for (let reel = 0; reel < this.NUM_REELS; reel++) {
-        lineSymbols.push(reelSymbols[reel][row]);
-      }
+  /**
+   * Remove the sticky wilds, once the feature holding them is over
+   */
+  public clearStickyWilds(): void {
+    this.stickySymbols.forEach((symbol) => symbol.destroy());
+    this.stickySymbols.clear();
+  }
 
-      // Count matching symbols from left
-      const firstSymbol = lineSymbols[0];
-      let matchCount = 1;
+  /**
+   * Play a Hold & Win bonus: the grid switches to one reel per cell, coins
+   * stay held and the other cells respin on their own.
+   * Emits "respin" after each respin lands. The grid stays in cell mode
+   * until exitHoldAndWin(), so the final coins can be shown off.
+   */
+  public async playHoldAndWin(bonus: HoldAndWinResult): Promise<void> {
+    this.winPresenter.clear();
+    this.enterCellMode();
+
+    await Promise.all(bonus.triggerCoins.map((coin) => this.showCoin(coin)));
+    this.events.emit("respin", {
+      respinsLeft: GAME_CONFIG.holdAndWin.respins,
+      coins: bonus.triggerCoins.length,
+    });
 
-      for (let i = 1; i < lineSymbols.length; i++) {
-        if (lineSymbols[i] === firstSymbol || lineSymbols[i] === "WILD") {
-          matchCount++;
-        } else {
-          break;
-        }
-      }
+    let coinCount = bonus.triggerCoins.length;
+    for (const step of bonus.respins) {
+      await wait(this.paced(this.SEQUENCE_PAUSE));
+      await this.respinCells(step.cellStops);
+      await Promise.all(step.newCoins.map((coin) => this.showCoin(coin)));
 
-      // Check if we have a winning combination (3 or more)
-      if (matchCount >= 3) {
-        const symbolConfig =
-          SYMBOLS_CONFIG[firstSymbol as keyof typeof SYMBOLS_CONFIG];
-        const payout = symbolConfig.value * matchCount;
-
-        // Create a version of the line where WILDs are replaced by the winning symbol for clarity
-        const concreteLineSymbols = lineSymbols
-          .slice(0, matchCount)
-          .map((s) => (s === "WILD" ? firstSymbol : s));
-
-        winningLines.push({
-          lineNumber: row + 1,
-          symbols: concreteLineSymbols,
-          count: matchCount,
-          payout: payout,
-        });
-      }
+      coinCount += step.newCoins.length;
+      this.events.emit("respin", {
+        respinsLeft: step.respinsLeft,
+        coins: coinCount,
+      });
     }
 
-    return winningLines;
+    await Promise.all(
+      bonus.coins.map((coin) =>
+        this.getCellSymbol(coin).pop(1.3, this.paced(0.3))
+      )
+    );
+  }
+
+  /**
+   * Back to the regular reels after Hold & Win
+   */
+  public exitHoldAndWin(): void {
+    this.cellLayer.removeChildren().forEach((child) => child.destroy());
+    this.cellReels = [];
+    this.reels.forEach((reel) => (reel.visible = true));
+  }
+
+  /**
+   * Replace each reel by single-cell reels showing the same symbols
+   */
+  private enterCellMode(): void {
+    this.cellReels = this.reels.map((reel, reelIndex) => {
+      reel.visible = false;
+      return Array.from({ length: GRID.rows[reelIndex] }, (_, row) => {
+        const cell = new Reel(
+          GRID.strips[reelIndex],
+          reel.getStopIndex() + row,
+          1
+        );
+        cell.setProfile(this.profile);
+        cell.position.set(reel.x, reel.y + row * layout.SYMBOL_SIZE);
+
+        const mask = new PIXI.Graphics();
+        mask.beginFill(0xffffff);
+        mask.drawRect(0, 0, layout.REEL_WIDTH, layout.SYMBOL_SIZE);
+        mask.endFill();
+        mask.position.copyFrom(cell.position);
+        cell.mask = mask;
+
+        this.cellLayer.addChild(cell, mask);
+        return cell;
+      });
+    });
+  }
+
+  /**
+   * Spin every cell that has a stop, leaving held coins alone
+   */
+  private async respinCells(cellStops: (number | null)[][]): Promise<void> {
+    const spinning: [Reel, number][] = [];
+    cellStops.forEach((column, reel) =>
+      column.forEach((stop, row) => {
+        if (stop !== null) spinning.push([this.cellReels[reel][row], stop]);
+      })
+    );
+
+    spinning.forEach(([cell]) => {
+      cell.setDirection(1);
+      cell.spin();
+    });
+    await wait(Math.min(this.profile.minSpinTime, 1));
+
+    const tl = gsap.timeline();
+    spinning.forEach(([cell, stop]) => {
+      tl.call(
+        () => cell.setTargetStop(stop),
+        [],
+        `+=${this.profile.stagger / 2}`
+      );
+    });
+
+    await new Promise<void>((resolve) => tl.call(resolve));
+    await waitUntil(() => spinning.every(([cell]) => !cell.spinning));
+  }
+
+  private getCellSymbol(coin: Coin): Symbol {
+    return this.cellReels[coin.reel][coin.row].getVisibleSymbols()[0];
+  }
+
+  private showCoin(coin: Coin): Promise<void> {
+    const symbol = this.getCellSymbol(coin);
+    symbol.setValueLabel(coin.jackpot ?? formatCurrency(coin.value));
+    return symbol.pop(1.25, this.paced(0.2));
   }
 
   /**
@@ -261,21 +653,14 @@ export class SlotMachine extends PIXI.Container {
    */
   public update(delta: number): void {
     this.reels.forEach((reel) => reel.update(delta));
+    this.cellReels.flat().forEach((reel) => reel.update(delta));
   }
 
   /**
    * Wait for all reels to stop spinning
    */
   private async waitForReelsToStop(): Promise<void> {
-    return new Promise((resolve) => {
-      const checkInterval = setInterval(() => {
-        const allStopped = this.reels.every((reel) => !reel.spinning);
-        if (allStopped) {
-          clearInterval(checkInterval);
-          resolve();
-        }
-      }, 100);
-    });
+    return waitUntil(() => this.reels.every((reel) => !reel.spinning));
   }
 
   /**
@@ -285,6 +670,10 @@ export class SlotMachine extends PIXI.Container {
     return this.isSpinning;
   }
 
+  public get reelCount(): number {
+    return GRID.strips.length;
+  }
+
   public getReel(index: number): Reel | undefined {
     return this.reels[index];
   }
@@ -304,12 +693,26 @@ export class SlotMachine extends PIXI.Container {
    */
   public get dimensions(): { width: number; height: number } {
     return {
-      width: this.NUM_REELS * layout.REEL_WIDTH,
-      height: this.NUM_ROWS * layout.SYMBOL_SIZE,
+      width: this.reelCount * layout.REEL_WIDTH,
+      height: Math.max(...GRID.rows) * layout.SYMBOL_SIZE,
     };
   }
 }
 
+/**
+ * Resolve once `condition` holds, checked every 100ms
+ */
+function waitUntil(condition: () => boolean): Promise<void> {
+  return new Promise((resolve) => {
+    const checkInterval = setInterval(() => {
+      if (condition()) {
+        clearInterval(checkInterval);
+        resolve();
+      }
+    }, 100);
+  });
+}
+
 /**
  * Create a gradient texture for separators
  */
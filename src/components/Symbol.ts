@@ -1,4 +1,5 @@
 import * as PIXI from "pixi.js";
+import { gsap } from "gsap";
 
 /**
  * Represents a single symbol in the slot machine.
@@ -9,6 +10,10 @@ export class Symbol extends PIXI.Container {
   public symbolType: string;
   public value: number;
   public texture: PIXI.Texture;
+  private multiplierText?: PIXI.Text;
+  private valueText?: PIXI.Text;
+  private pulseTween?: gsap.core.Tween;
+  private resetPulse?: () => void;
 
   constructor(texture: PIXI.Texture, symbolType: string, value: number) {
     super();
@@ -27,8 +32,8 @@ export class Symbol extends PIXI.Container {
    */
   public scaleToFit(width: number, height: number): void {
     const scale = Math.min(
-      width / this.sprite.width,
-      height / this.sprite.height
+      width / this.sprite.texture.width,
+      height / this.sprite.texture.height
     );
     this.sprite.scale.set(scale);
   }
@@ -47,7 +52,157 @@ export class Symbol extends PIXI.Container {
     value?: number
   ): void {
     this.texture = texture;
+    this.sprite.texture = texture;
     if (type !== undefined) this.symbolType = type;
     if (value !== undefined) this.value = value;
   }
+
+  /**
+   * Show an "xN" badge, hidden for a multiplier of 1
+   */
+  public setMultiplier(multiplier: number): void {
+    if (multiplier <= 1) {
+      if (this.multiplierText) this.multiplierText.visible = false;
+      return;
+    }
+
+    if (!this.multiplierText) {
+      this.multiplierText = new PIXI.Text("", {
+        fontFamily: "Arial",
+        fontSize: 28,
+        fill: 0xffff00,
+        fontWeight: "bold",
+        stroke: 0x000000,
+        strokeThickness: 5,
+      });
+      this.multiplierText.anchor.set(1);
+      this.addChild(this.multiplierText);
+    }
+    this.multiplierText.text = `x${multiplier}`;
+    this.multiplierText.position.set(this.sprite.width, this.sprite.height);
+    this.multiplierText.visible = true;
+  }
+
+  /**
+   * Show a value (e.g. a coin's cash value) over the sprite, null hides it
+   */
+  public setValueLabel(label: string | null): void {
+    if (label === null) {
+      if (this.valueText) this.valueText.visible = false;
+      return;
+    }
+
+    if (!this.valueText) {
+      this.valueText = new PIXI.Text("", {
+        fontFamily: "Arial",
+        fontSize: 30,
+        fill: 0xffffff,
+        fontWeight: "bold",
+        stroke: 0x000000,
+        strokeThickness: 5,
+        align: "center",
+      });
+      this.valueText.anchor.set(0.5);
+      this.addChild(this.valueText);
+    }
+    this.valueText.text = label;
+    this.valueText.position.set(this.sprite.width / 2, this.sprite.height / 2);
+    this.valueText.visible = true;
+  }
+
+  /**
+   * Grow and shrink back around the centre, e.g. when a wild triggers
+   */
+  public pop(scale: number = 1.25, duration: number = 0.2): Promise<void> {
+    const baseScale = this.sprite.scale.x;
+    const width = this.sprite.width;
+    const height = this.sprite.height;
+    const state = { scale: 1 };
+
+    return new Promise((resolve) => {
+      gsap.to(state, {
+        scale,
+        duration,
+        yoyo: true,
+        repeat: 1,
+        ease: "sine.inOut",
+        onUpdate: () => {
+          this.sprite.scale.set(baseScale * state.scale);
+          this.sprite.position.set(
+            (width * (1 - state.scale)) / 2,
+            (height * (1 - state.scale)) / 2
+          );
+        },
+        onComplete: () => resolve(),
+      });
+    });
+  }
+
+  /**
+   * Keep growing and shrinking around the centre until stopPulse(), e.g.
+   * while a win is presented
+   */
+  public pulse(scale: number = 1.1, duration: number = 0.4): void {
+    this.stopPulse();
+
+    const baseScale = this.sprite.scale.x;
+    const width = this.sprite.width;
+    const height = this.sprite.height;
+    const setScale = (factor: number) => {
+      this.sprite.scale.set(baseScale * factor);
+      this.sprite.position.set(
+        (width * (1 - factor)) / 2,
+        (height * (1 - factor)) / 2
+      );
+    };
+
+    const state = { scale: 1 };
+    this.pulseTween = gsap.to(state, {
+      scale,
+      duration,
+      yoyo: true,
+      repeat: -1,
+      ease: "sine.inOut",
+      onUpdate: () => setScale(state.scale),
+    });
+    this.resetPulse = () => setScale(1);
+  }
+
+  public stopPulse(): void {
+    this.pulseTween?.kill();
+    this.resetPulse?.();
+    this.pulseTween = undefined;
+    this.resetPulse = undefined;
+  }
+
+  /**
+   * Shrink and fade out, for a winning symbol removed by a cascade
+   */
+  public explode(duration: number = 0.3): Promise<void> {
+    const width = this.sprite.width;
+    const height = this.sprite.height;
+
+    return new Promise((resolve) => {
+      gsap.to(this.sprite, {
+        alpha: 0,
+        x: width / 2,
+        y: height / 2,
+        duration,
+        ease: "back.in",
+        onComplete: () => resolve(),
+      });
+      gsap.to(this.sprite.scale, { x: 0, y: 0, duration, ease: "back.in" });
+    });
+  }
+
+  /**
+   * Undo what explode(), pop() and pulse() did to the sprite
+   */
+  public resetSprite(): void {
+    this.stopPulse();
+    gsap.killTweensOf(this.sprite);
+    gsap.killTweensOf(this.sprite.scale);
+    this.sprite.alpha = 1;
+    this.sprite.position.set(0, 0);
+  }
 }
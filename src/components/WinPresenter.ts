@@ -0,0 +1,207 @@
+import * as PIXI from "pixi.js";
+import { gsap } from "gsap";
+import { Symbol } from "./Symbol";
+import { GRID } from "../math/grid";
+import { getWinningCells } from "../math/WinEvaluator";
+import { ScatterWin, WaysWin, WinLine } from "../core/types/type";
+import { formatCurrency } from "../utils/currency";
+
+// Winning lines are told apart by colour, repeating past the last one
+export const LINE_COLOURS = [0xff4040, 0x40ff40, 0x40a0ff, 0xffff40, 0xff40ff];
+
+/**
+ * The wins standing on the grid, from a spin or one of its cascades
+ */
+export interface GridWins {
+  winningLines: WinLine[];
+  waysWins: WaysWin[];
+  scatterWin?: ScatterWin | null;
+}
+
+/**
+ * What the presenter needs to know about the grid it is drawn over
+ */
+export interface WinGrid {
+  // Symbol showing in a cell, a sticky wild over the reel if there is one
+  getSymbol(reel: number, row: number): Symbol;
+  // Centre of a cell in the presenter's coordinates
+  getCellCentre(reel: number, row: number): { x: number; y: number };
+}
+
+interface PresentedWin {
+  // [reel, row] of the symbols that form the win
+  cells: [number, number][];
+  // Cells the payline runs through, for line wins
+  path: [number, number][] | null;
+  colour: number;
+  label: string;
+}
+
+/**
+ * Shows off the wins of a landed grid: all of them together first, then one
+ * by one with their amount, until clear(). Paylines are drawn over the
+ * reels, winning symbols pulse and the others are dimmed.
+ */
+export class WinPresenter extends PIXI.Container {
+  private readonly ALL_WINS_TIME = 2;
+  private readonly WIN_TIME = 1.2;
+  private readonly DIMMED_ALPHA = 0.35;
+
+  private grid: WinGrid;
+  private lines = new PIXI.Graphics();
+  private amountText: PIXI.Text;
+  private highlighted: Symbol[] = [];
+  private timeline?: gsap.core.Timeline;
+
+  constructor(grid: WinGrid) {
+    super();
+    this.grid = grid;
+
+    this.amountText = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 28,
+      fill: 0xffd700,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 5,
+    });
+    this.amountText.anchor.set(0.5);
+    this.amountText.visible = false;
+
+    this.addChild(this.lines);
+    this.addChild(this.amountText);
+  }
+
+  /**
+   * Present the wins until clear(), paced by the presentation speed
+   */
+  public show(wins: GridWins, speed: number = 1): void {
+    this.clear();
+
+    const presented = this.collectWins(wins);
+    if (presented.length === 0) return;
+
+    const tl = gsap.timeline();
+    // A single win is shown in full with its amount, nothing to cycle through
+    if (presented.length === 1) {
+      tl.call(() => this.highlight(presented, presented[0]));
+    } else {
+      tl.call(() => this.highlight(presented));
+      const cycle = gsap.timeline({ repeat: -1 });
+      presented.forEach((win, i) =>
+        cycle.call(() => this.highlight([win], win), [], i * this.WIN_TIME)
+      );
+      cycle.set({}, {}, presented.length * this.WIN_TIME);
+      tl.add(cycle, this.ALL_WINS_TIME);
+    }
+
+    tl.timeScale(speed);
+    this.timeline = tl;
+  }
+
+  /**
+   * Mark all the wins at once, without cycling, e.g. before a cascade
+   * removes them
+   */
+  public showAll(wins: GridWins): void {
+    this.clear();
+    this.highlight(this.collectWins(wins));
+  }
+
+  /**
+   * Stop presenting and put the symbols back as they were
+   */
+  public clear(): void {
+    this.timeline?.kill();
+    this.timeline = undefined;
+    this.reset();
+  }
+
+  private collectWins(wins: GridWins): PresentedWin[] {
+    const lineWins = wins.winningLines.map((line) => ({
+      cells: line.positions
+        .slice(0, line.count)
+        .map((row, reel): [number, number] => [reel, row]),
+      path: line.positions.map((row, reel): [number, number] => [reel, row]),
+      colour: LINE_COLOURS[(line.lineNumber - 1) % LINE_COLOURS.length],
+      label: `LINE ${line.lineNumber}: ${formatCurrency(line.payout)}`,
+    }));
+    const waysWins = wins.waysWins.map((win, index) => ({
+      cells: getWinningCells([], [win]),
+      path: null,
+      colour: LINE_COLOURS[index % LINE_COLOURS.length],
+      label: `${win.ways} WAYS: ${formatCurrency(win.payout)}`,
+    }));
+    const scatterWins = wins.scatterWin
+      ? [
+          {
+            cells: wins.scatterWin.positions,
+            path: null,
+            colour: 0xffd700,
+            label: `SCATTER: ${formatCurrency(wins.scatterWin.payout)}`,
+          },
+        ]
+      : [];
+
+    return [...lineWins, ...waysWins, ...scatterWins];
+  }
+
+  /**
+   * Draw the given wins, pulse their symbols and dim the rest.
+   * The amount is shown for the labelled win only.
+   */
+  private highlight(wins: PresentedWin[], labelled?: PresentedWin): void {
+    this.reset();
+
+    const winning = new Set(
+      wins.flatMap((win) => win.cells.map(([reel, row]) => `${reel}:${row}`))
+    );
+    GRID.rows.forEach((rows, reel) => {
+      for (let row = 0; row < rows; row++) {
+        const symbol = this.grid.getSymbol(reel, row);
+        if (winning.has(`${reel}:${row}`)) {
+          symbol.pulse();
+        } else {
+          symbol.alpha = this.DIMMED_ALPHA;
+        }
+        this.highlighted.push(symbol);
+      }
+    });
+
+    wins.forEach((win) => {
+      if (!win.path) return;
+      const points = win.path.map(([reel, row]) =>
+        this.grid.getCellCentre(reel, row)
+      );
+      // Dark underlay keeps the line readable over any symbol
+      [
+        { width: 10, colour: 0x000000, alpha: 0.5 },
+        { width: 6, colour: win.colour, alpha: 1 },
+      ].forEach(({ width, colour, alpha }) => {
+        this.lines.lineStyle(width, colour, alpha);
+        this.lines.moveTo(points[0].x, points[0].y);
+        points.slice(1).forEach(({ x, y }) => this.lines.lineTo(x, y));
+      });
+    });
+
+    if (labelled) {
+      const [reel, row] =
+        labelled.cells[Math.floor((labelled.cells.length - 1) / 2)];
+      const { x, y } = this.grid.getCellCentre(reel, row);
+      this.amountText.text = labelled.label;
+      this.amountText.position.set(x, y);
+      this.amountText.visible = true;
+    }
+  }
+
+  private reset(): void {
+    this.highlighted.forEach((symbol) => {
+      if (symbol.destroyed) return;
+      symbol.stopPulse();
+      symbol.alpha = 1;
+    });
+    this.highlighted = [];
+    this.lines.clear();
+    this.amountText.visible = false;
+  }
+}
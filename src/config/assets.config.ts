@@ -1,4 +1,4 @@
-import { AssetConfig } from "../managers/AssetManager";
+import type { AssetConfig } from "../managers/AssetManager";
 
 /**
  * Asset configuration for the game
@@ -31,11 +31,61 @@ export const GAME_ASSETS: AssetConfig[] = [
     type: "image",
     path: "../../assets/ui/slotmachine-bg.png",
   },
+  {
+    name: "coin",
+    type: "image",
+    path: "../../assets/ui/images/coins.png",
+  },
+  {
+    name: "scatter",
+    type: "image",
+    path: "../../assets/ui/images/trolley.png",
+  },
   {
     name: "slot-header",
     type: "image",
     path: "../../assets/ui/slot-header.png",
   },
+  {
+    name: "autoplay-button",
+    type: "image",
+    path: "../../assets/ui/images/autoplay_btn.png",
+  },
+  {
+    name: "autoplay-label",
+    type: "image",
+    path: "../../assets/ui/images/auto_play.png",
+  },
+  {
+    name: "bet-label",
+    type: "image",
+    path: "../../assets/ui/images/bet.png",
+  },
+  {
+    name: "coin-value-label",
+    type: "image",
+    path: "../../assets/ui/images/coin_value.png",
+  },
+  {
+    name: "level-label",
+    type: "image",
+    path: "../../assets/ui/images/level.png",
+  },
+  {
+    name: "lines-label",
+    type: "image",
+    path: "../../assets/ui/images/lines.png",
+  },
+  {
+    name: "max-bet-button",
+    type: "image",
+    path: "../../assets/ui/images/max_bet_btn.png",
+  },
+  {
+    name: "max-bet-label",
+    type: "image",
+    path: "../../assets/ui/images/max_bet.png",
+  },
 ];
 
 /**
@@ -48,18 +98,32 @@ export const ASSET_NAMES = {
   BACKGROUND: "background",
   SLOTMACHINE_BG: "slotmachine-bg",
   SLOT_HEADER: "slot-header",
+  AUTOPLAY_BUTTON: "autoplay-button",
+  AUTOPLAY_LABEL: "autoplay-label",
+  BET_LABEL: "bet-label",
+  COIN_VALUE_LABEL: "coin-value-label",
+  LEVEL_LABEL: "level-label",
+  LINES_LABEL: "lines-label",
+  MAX_BET_BUTTON: "max-bet-button",
+  MAX_BET_LABEL: "max-bet-label",
+  SCATTER: "scatter",
+  COIN: "coin",
 } as const;
 
 export const SYMBOLS_CONFIG = {
   // Existing symbols
-  BAG_OF_GOLD: { filename: "bag_of_gold.png", value: 100, weight: 5 },
-  BARRELS: { filename: "barrels.png", value: 50, weight: 10 },
-  BOOTS: { filename: "boots.png", value: 75, weight: 7 },
-  DYNAMITE_CRATE: { filename: "dynamite_crate.png", value: 200, weight: 3 },
-  GAS_LAMP: { filename: "gas_lamp.png", value: 150, weight: 4 },
-  PILE_OF_GOLD: { filename: "pile_of_gold.png", value: 300, weight: 2 },
-  SNAKE: { filename: "snake.png", value: 25, weight: 15 },
-  WILD: { filename: "wild.png", value: 175, weight: 4 },
-  MAN: { filename: "character_man_symbol.png", value: 500, weight: 1 },
-  WOMAN: { filename: "character_woman_symbol.png", value: 500, weight: 1 },
+  BAG_OF_GOLD: { filename: "bag_of_gold.png", value: 100 },
+  BARRELS: { filename: "barrels.png", value: 50 },
+  BOOTS: { filename: "boots.png", value: 75 },
+  DYNAMITE_CRATE: { filename: "dynamite_crate.png", value: 200 },
+  GAS_LAMP: { filename: "gas_lamp.png", value: 150 },
+  PILE_OF_GOLD: { filename: "pile_of_gold.png", value: 300 },
+  SNAKE: { filename: "snake.png", value: 25 },
+  WILD: { filename: "wild.png", value: 175 },
+  MAN: { filename: "character_man_symbol.png", value: 500 },
+  WOMAN: { filename: "character_woman_symbol.png", value: 500 },
+  // Pays anywhere and triggers free spins, texture added at load time
+  SCATTER: { filename: "scatter.png", value: 0 },
+  // Carries a cash value in the Hold & Win bonus, texture added at load time
+  COIN: { filename: "coin.png", value: 0 },
 } as const;
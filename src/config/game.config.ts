@@ -0,0 +1,149 @@
+import {
+  JackpotTier,
+  PickPrizeType,
+  WinEvaluationMode,
+} from "../core/types/type";
+
+/**
+ * Game configuration
+ * Tunables that describe how this game plays, as opposed to how it looks
+ */
+export const GAME_CONFIG = {
+  // Number of reels, and the visible rows on every reel or on each reel in
+  // turn (e.g. [2, 3, 4, 5, 4, 3] for Megaways-style reels).
+  // Strips and paylines are reused to fit (see src/math/grid.ts), retune the
+  // paytable with `npm run simulate` after changing the grid. Rows below the
+  // declared paylines get a straight line each.
+  grid: {
+    reels: 5,
+    rows: 3 as number | number[],
+  },
+  // "lines" pays along the paylines, "ways" pays any adjacent-reel match
+  // (as many ways as the product of the reel heights, 243 on 5x3)
+  winEvaluation: "lines" as WinEvaluationMode,
+  // Wild behaviours, applied to the grid before wins are evaluated.
+  // Each one moves the RTP a lot: retune with `npm run simulate` when enabling.
+  wilds: {
+    // A landed wild fills its whole reel
+    expanding: false,
+    // Wilds stay in place for the rest of free spins
+    sticky: false,
+    // Every line a wild completes is multiplied by this, several multiply together
+    multiplier: 1,
+  },
+  // Tumbling reels: winning symbols are removed and the gaps refilled from the strip.
+  // Off here, the paytable is tuned without them.
+  cascades: {
+    enabled: false,
+    // Win multiplier of the 1st, 2nd... cascade, the last one holds from then on
+    multipliers: [1, 2, 3, 5],
+  },
+  // A reel landing fully covered by MAN or WOMAN plays the character animation
+  characterColumns: {
+    // "wild" turns the reel wild, "multiplier" multiplies the landed grid's
+    // line/ways wins, several columns multiply together
+    effect: "multiplier" as "wild" | "multiplier",
+    multipliers: { MAN: 2, WOMAN: 2 } as Record<string, number>,
+  },
+  freeSpins: {
+    // Free spins awarded by the number of scatters that landed
+    awards: { 3: 10, 4: 15, 5: 20 } as Record<number, number>,
+    // Scatters landing during free spins add more
+    retrigger: true,
+  },
+  holdAndWin: {
+    enabled: true,
+    // Coins on the grid needed to start the bonus
+    triggerCount: 6,
+    // Respins granted, and restored by every new coin
+    respins: 3,
+    // Coin values in multiples of the total bet, drawn by weight.
+    // Tiers with a progressive pool (see `jackpots`) pay the pool instead.
+    coinValues: [
+      { value: 0.5, weight: 400, jackpot: null },
+      { value: 1, weight: 300, jackpot: null },
+      { value: 2, weight: 150, jackpot: null },
+      { value: 3, weight: 80, jackpot: null },
+      { value: 5, weight: 40, jackpot: null },
+      { value: 0, weight: 20, jackpot: "MINI" },
+      { value: 25, weight: 6, jackpot: "MINOR" },
+      { value: 0, weight: 2, jackpot: "MAJOR" },
+      { value: 0, weight: 1, jackpot: "GRAND" },
+    ] as { value: number; weight: number; jackpot: JackpotTier | null }[],
+  },
+  // Progressive jackpots, won by a Hold & Win coin of the same tier
+  jackpots: {
+    // Seed value in currency, contribution as a share of every paid bet
+    pools: {
+      MINI: { seed: 100, contribution: 0.003 },
+      MAJOR: { seed: 800, contribution: 0.002 },
+      GRAND: { seed: 4000, contribution: 0.001 },
+    } as Partial<Record<JackpotTier, { seed: number; contribution: number }>>,
+  },
+  // Pick-and-click bonus: hidden items reveal prizes until one says collect
+  pickBonus: {
+    enabled: true,
+    // Starts when the symbol lands anywhere on each of these reels
+    trigger: { symbol: "DYNAMITE_CRATE", reels: [0, 2, 4] },
+    // Hidden items on the board
+    items: 12,
+    // Drawn by weight for each item, cash in multiples of the total bet.
+    // The first pick never collects.
+    prizes: [
+      { type: "cash", value: 1, weight: 30 },
+      { type: "cash", value: 2, weight: 20 },
+      { type: "cash", value: 5, weight: 8 },
+      { type: "cash", value: 10, weight: 2 },
+      { type: "multiplier", value: 2, weight: 5 },
+      { type: "collect", value: 0, weight: 35 },
+    ] as { type: PickPrizeType; value: number; weight: number }[],
+  },
+  // Double-up after a base game win: guess a card's colour (2x) or suit (4x)
+  gamble: {
+    enabled: true,
+    // Gambles in a row on one win before it has to be collected
+    maxRounds: 5,
+    // Hold & Win, pick bonus and jackpot wins can be gambled too, not just
+    // what the reels paid
+    featureWins: false,
+  },
+  // Total bet = coin value x bet level x active lines (`waysBetUnits` in ways mode)
+  bet: {
+    coinValues: [0.01, 0.02, 0.04, 0.1, 0.2, 0.5, 1],
+    levels: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+    // 0.04 x 10 x 25 lines = 10
+    defaultCoinValue: 0.04,
+    defaultLevel: 10,
+  },
+  // Choices offered by the autoplay panel, the first of each is preselected
+  autoplay: {
+    spins: [10, 25, 50, 100, Infinity],
+    // Net loss and single round win that stop autoplay, null for no limit
+    lossLimits: [null, 100, 500, 1000, 5000] as (number | null)[],
+    winLimits: [null, 100, 500, 1000, 5000] as (number | null)[],
+  },
+  outcome: {
+    // "local" uses the in-client RNG, "http" asks the game server
+    provider: "local" as "local" | "http",
+    url: "http://localhost:8081/spin",
+    timeoutMs: 8000,
+  },
+  // ISO 4217 code, the symbol and minor units follow from it
+  currency: {
+    code: "USD",
+    locale: "en-US",
+  },
+  wallet: {
+    // "local" keeps the balance in this browser, "http" asks a wallet server
+    provider: "local" as "local" | "http",
+    url: "http://localhost:8081/wallet/",
+    timeoutMs: 8000,
+    // Balance a new local wallet starts with
+    startingBalance: 10000,
+  },
+  history: {
+    // Rounds kept for the history panel, the oldest are dropped first, and
+    // sooner if localStorage fills up
+    maxRounds: 50,
+  },
+};
@@ -1,3 +1,5 @@
+import { GRID } from "../math/grid";
+
 export const layout = {
   REEL_WIDTH: 160,
   SYMBOL_SIZE: 150,
@@ -7,8 +9,10 @@ export function updateLayoutConfig(screenWidth: number) {
   const designWidth = 3840;
   const designReelWidth = 540;
   const designSymbolSize = 500;
+  // The art is laid out for 5x3, bigger grids shrink to the same footprint
+  const gridFit = Math.min(1, 5 / GRID.rows.length, 3 / Math.max(...GRID.rows));
 
-  const scale = (0.9 * screenWidth) / designWidth;
+  const scale = ((0.9 * screenWidth) / designWidth) * gridFit;
   layout.REEL_WIDTH = Math.round(designReelWidth * scale);
   layout.SYMBOL_SIZE = Math.round(designSymbolSize * scale);
 }
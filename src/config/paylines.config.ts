@@ -0,0 +1,44 @@
+/**
+ * Payline definitions
+ * Each line lists the row index (0 = top) it passes through on every reel.
+ * Lines are ordered so the first 10/20/25 entries form the classic
+ * 10, 20 and 25-line layouts.
+ */
+export const PAYLINES: number[][] = [
+  // 1-5: straight rows and V shapes
+  [1, 1, 1, 1, 1],
+  [0, 0, 0, 0, 0],
+  [2, 2, 2, 2, 2],
+  [0, 1, 2, 1, 0],
+  [2, 1, 0, 1, 2],
+  // 6-10: shallow V shapes and steps
+  [1, 0, 0, 0, 1],
+  [1, 2, 2, 2, 1],
+  [0, 0, 1, 2, 2],
+  [2, 2, 1, 0, 0],
+  [1, 2, 1, 0, 1],
+  // 11-20: zig-zags and bumps
+  [1, 0, 1, 2, 1],
+  [0, 1, 1, 1, 0],
+  [2, 1, 1, 1, 2],
+  [0, 1, 0, 1, 0],
+  [2, 1, 2, 1, 2],
+  [1, 1, 0, 1, 1],
+  [1, 1, 2, 1, 1],
+  [0, 0, 2, 0, 0],
+  [2, 2, 0, 2, 2],
+  [0, 2, 2, 2, 0],
+  // 21-25: wide zig-zags
+  [2, 0, 0, 0, 2],
+  [0, 2, 0, 2, 0],
+  [2, 0, 2, 0, 2],
+  [1, 0, 2, 0, 1],
+  [1, 2, 0, 2, 1],
+];
+
+/**
+ * Line counts the player can choose from
+ */
+export const ACTIVE_LINE_OPTIONS = [1, 5, 10, 20, 25] as const;
+
+export const DEFAULT_ACTIVE_LINES = 25;
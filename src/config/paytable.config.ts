@@ -0,0 +1,48 @@
+/**
+ * Paytable
+ * Payout for 3, 4 and 5 of a kind of each symbol, as a multiplier of the bet
+ * named by `basis`:
+ * - "lineBet": total bet / active lines (lines mode),
+ *   or total bet / `waysBetUnits` (ways mode, paid per way)
+ * - "totalBet": the whole stake
+ * Tuned with `npm run simulate` to roughly 98% RTP in both modes,
+ * free spins and Hold & Win included.
+ */
+export type PayBasis = "lineBet" | "totalBet";
+
+export interface SymbolPays {
+  3: number;
+  4: number;
+  5: number;
+}
+
+export const PAYTABLE: {
+  basis: PayBasis;
+  waysBetUnits: number;
+  symbols: Record<string, SymbolPays>;
+} = {
+  basis: "lineBet",
+  waysBetUnits: 80,
+  symbols: {
+    SNAKE: { 3: 4, 4: 15, 5: 60 },
+    BARRELS: { 3: 7, 4: 30, 5: 90 },
+    BOOTS: { 3: 12, 4: 45, 5: 140 },
+    BAG_OF_GOLD: { 3: 25, 4: 70, 5: 230 },
+    GAS_LAMP: { 3: 30, 4: 90, 5: 300 },
+    // Crates also open the pick bonus on reels 1, 3 and 5
+    DYNAMITE_CRATE: { 3: 15, 4: 60, 5: 200 },
+    PILE_OF_GOLD: { 3: 60, 4: 230, 5: 850 },
+    WILD: { 3: 60, 4: 300, 5: 1200 },
+    // Characters pay less on their own, full columns multiply the spin
+    MAN: { 3: 25, 4: 90, 5: 350 },
+    WOMAN: { 3: 25, 4: 90, 5: 350 },
+  },
+};
+
+/**
+ * Scatter pays anywhere on the grid, as a multiplier of the total bet
+ */
+export const SCATTER_PAYTABLE: { symbol: string; pays: SymbolPays } = {
+  symbol: "SCATTER",
+  pays: { 3: 1, 4: 10, 5: 50 },
+};
@@ -0,0 +1,78 @@
+/**
+ * Reel strips
+ * Each reel is an ordered, circular list of symbols. An outcome is one stop
+ * index per reel; the visible window starts at that index and wraps around.
+ * Symbol frequencies (and so the game math) are defined by these strips.
+ * MAN and WOMAN are stacked three high so a full character column can land.
+ * Each strip carries two SCATTERs, far enough apart to never show together.
+ * Reel 1 has no WILD, so a line always starts on a paying symbol.
+ * COINs only count towards the Hold & Win bonus.
+ */
+// prettier-ignore
+export const REEL_STRIPS: string[][] = [
+  // Reel 1
+  [
+    "GAS_LAMP", "BARRELS", "SNAKE", "DYNAMITE_CRATE", "COIN", "MAN",
+    "MAN", "MAN", "BARRELS", "BOOTS", "DYNAMITE_CRATE", "BARRELS",
+    "SCATTER", "SNAKE", "SNAKE", "BARRELS", "PILE_OF_GOLD", "COIN",
+    "COIN", "BAG_OF_GOLD", "BARRELS", "DYNAMITE_CRATE", "GAS_LAMP", "SNAKE",
+    "BOOTS", "BARRELS", "BARRELS", "SNAKE", "BARRELS", "BARRELS",
+    "BOOTS", "COIN", "COIN", "SNAKE", "SNAKE", "BAG_OF_GOLD",
+    "BOOTS", "PILE_OF_GOLD", "SNAKE", "SNAKE", "GAS_LAMP", "BOOTS",
+    "SCATTER", "BOOTS", "SNAKE", "WOMAN", "WOMAN", "WOMAN",
+    "SNAKE", "BAG_OF_GOLD", "COIN", "BAG_OF_GOLD", "BAG_OF_GOLD", "GAS_LAMP",
+    "BARRELS", "BAG_OF_GOLD",
+  ],
+  // Reel 2
+  [
+    "BOOTS", "SNAKE", "PILE_OF_GOLD", "COIN", "WILD", "WILD",
+    "BARRELS", "BARRELS", "SNAKE", "SNAKE", "SNAKE", "MAN",
+    "MAN", "MAN", "SNAKE", "SCATTER", "BOOTS", "BAG_OF_GOLD",
+    "COIN", "COIN", "BAG_OF_GOLD", "WILD", "PILE_OF_GOLD", "GAS_LAMP",
+    "GAS_LAMP", "BOOTS", "SNAKE", "BARRELS", "BAG_OF_GOLD", "BARRELS",
+    "SNAKE", "COIN", "COIN", "WOMAN", "WOMAN", "WOMAN",
+    "BOOTS", "BARRELS", "BARRELS", "BAG_OF_GOLD", "SCATTER", "BOOTS",
+    "SNAKE", "DYNAMITE_CRATE", "DYNAMITE_CRATE", "COIN", "BAG_OF_GOLD", "DYNAMITE_CRATE",
+    "BARRELS", "GAS_LAMP", "GAS_LAMP", "SNAKE", "WILD", "BOOTS",
+    "BARRELS", "BOOTS",
+  ],
+  // Reel 3
+  [
+    "SNAKE", "BOOTS", "BARRELS", "COIN", "BAG_OF_GOLD", "SNAKE",
+    "MAN", "MAN", "MAN", "SNAKE", "SNAKE", "SNAKE",
+    "SCATTER", "SNAKE", "BARRELS", "WILD", "WILD", "COIN",
+    "DYNAMITE_CRATE", "SNAKE", "BAG_OF_GOLD", "DYNAMITE_CRATE", "BAG_OF_GOLD", "GAS_LAMP",
+    "SNAKE", "BARRELS", "SNAKE", "SNAKE", "SNAKE", "BOOTS",
+    "BOOTS", "COIN", "COIN", "SNAKE", "WILD", "SNAKE",
+    "WILD", "PILE_OF_GOLD", "BAG_OF_GOLD", "SNAKE", "PILE_OF_GOLD", "BOOTS",
+    "BAG_OF_GOLD", "WOMAN", "WOMAN", "WOMAN", "BOOTS", "GAS_LAMP",
+    "DYNAMITE_CRATE", "SCATTER", "BOOTS", "COIN", "GAS_LAMP", "BARRELS",
+    "BARRELS", "BOOTS",
+  ],
+  // Reel 4
+  [
+    "BOOTS", "GAS_LAMP", "SNAKE", "COIN", "SNAKE", "BAG_OF_GOLD",
+    "BARRELS", "BAG_OF_GOLD", "MAN", "MAN", "MAN", "WILD",
+    "GAS_LAMP", "DYNAMITE_CRATE", "SCATTER", "BARRELS", "COIN", "COIN",
+    "WILD", "BOOTS", "BARRELS", "BARRELS", "BOOTS", "BARRELS",
+    "DYNAMITE_CRATE", "SNAKE", "SNAKE", "WILD", "SNAKE", "GAS_LAMP",
+    "BAG_OF_GOLD", "COIN", "COIN", "SNAKE", "BARRELS", "DYNAMITE_CRATE",
+    "SNAKE", "WOMAN", "WOMAN", "WOMAN", "PILE_OF_GOLD", "BOOTS",
+    "WILD", "SCATTER", "SNAKE", "COIN", "BOOTS", "GAS_LAMP",
+    "SNAKE", "BOOTS", "SNAKE", "SNAKE", "BAG_OF_GOLD", "BARRELS",
+    "PILE_OF_GOLD", "BOOTS",
+  ],
+  // Reel 5
+  [
+    "BARRELS", "BAG_OF_GOLD", "SNAKE", "COIN", "SNAKE", "SNAKE",
+    "SNAKE", "PILE_OF_GOLD", "SNAKE", "DYNAMITE_CRATE", "WILD", "BARRELS",
+    "BAG_OF_GOLD", "BAG_OF_GOLD", "GAS_LAMP", "SCATTER", "BOOTS", "MAN",
+    "MAN", "MAN", "BOOTS", "WILD", "COIN", "COIN",
+    "BOOTS", "SNAKE", "BAG_OF_GOLD", "PILE_OF_GOLD", "SNAKE", "WILD",
+    "DYNAMITE_CRATE", "COIN", "COIN", "BOOTS", "SNAKE", "BARRELS",
+    "BOOTS", "BARRELS", "BARRELS", "BARRELS", "BAG_OF_GOLD", "SCATTER",
+    "SNAKE", "DYNAMITE_CRATE", "BARRELS", "WOMAN", "WOMAN", "WOMAN",
+    "BOOTS", "COIN", "WILD", "GAS_LAMP", "GAS_LAMP", "GAS_LAMP",
+    "SNAKE", "SNAKE",
+  ],
+];
@@ -0,0 +1,59 @@
+/**
+ * Spin timing profiles
+ * How fast the reels run and the wins play out. Only the presentation
+ * changes, the outcome of a spin is the same under every profile.
+ */
+export interface SpinProfile {
+  // Reel speed in pixels per frame, and how much it changes each frame
+  topSpeed: number;
+  acceleration: number;
+  deceleration: number;
+  // Seconds between one reel starting (or stopping) and the next
+  stagger: number;
+  // The reels spin at least `minSpinTime` seconds, plus up to `spinTimeJitter`
+  minSpinTime: number;
+  spinTimeJitter: number;
+  // Speed of win animations and pauses, 2 plays them twice as fast
+  presentationSpeed: number;
+}
+
+export const SPIN_PROFILES = {
+  normal: {
+    topSpeed: 50,
+    acceleration: 2,
+    deceleration: 1,
+    stagger: 0.1,
+    minSpinTime: 2,
+    spinTimeJitter: 2,
+    presentationSpeed: 1,
+  },
+  quick: {
+    topSpeed: 70,
+    acceleration: 4,
+    deceleration: 2,
+    stagger: 0.05,
+    minSpinTime: 0.8,
+    spinTimeJitter: 0.4,
+    presentationSpeed: 1.5,
+  },
+  turbo: {
+    topSpeed: 90,
+    acceleration: 10,
+    deceleration: 5,
+    stagger: 0,
+    minSpinTime: 0.2,
+    spinTimeJitter: 0,
+    presentationSpeed: 3,
+  },
+} satisfies Record<string, SpinProfile>;
+
+export type SpinProfileName = keyof typeof SPIN_PROFILES;
+
+/**
+ * Profiles in the order the speed toggle steps through them
+ */
+export const SPIN_PROFILE_OPTIONS = Object.keys(
+  SPIN_PROFILES
+) as SpinProfileName[];
+
+export const DEFAULT_SPIN_PROFILE: SpinProfileName = "normal";
@@ -0,0 +1,101 @@
+/**
+ * What the player chose in the autoplay panel
+ */
+export interface AutoplaySettings {
+  // Infinity plays until a stop condition or the player stops it
+  spins: number;
+  // Net loss of the session that stops it, null for no limit
+  lossLimit: number | null;
+  // A single round win at least this big stops it, null for no limit
+  winLimit: number | null;
+  stopOnFeature: boolean;
+}
+
+export type AutoplayStopReason =
+  | "spinsDone"
+  | "lossLimit"
+  | "winLimit"
+  | "feature"
+  | "balance"
+  | "error"
+  | "player";
+
+/**
+ * How a round of autoplay ended
+ */
+export interface AutoplayRound {
+  balance: number;
+  // Everything the round paid, bonus rounds included
+  win: number;
+  featureTriggered: boolean;
+}
+
+/**
+ * Counts the spins of an autoplay session and decides when it has to stop.
+ * It does not spin anything itself.
+ */
+export class AutoplaySession {
+  private settings: AutoplaySettings;
+  private startBalance: number;
+  private spinsPlayed = 0;
+  private reason: AutoplayStopReason | null = null;
+
+  constructor(settings: AutoplaySettings, startBalance: number) {
+    this.settings = settings;
+    this.startBalance = startBalance;
+  }
+
+  public get active(): boolean {
+    return this.reason === null;
+  }
+
+  public get stopReason(): AutoplayStopReason | null {
+    return this.reason;
+  }
+
+  public get spinsLeft(): number {
+    return this.settings.spins - this.spinsPlayed;
+  }
+
+  /**
+   * Count the next spin in, or stop if it cannot be paid for
+   */
+  public startSpin(balance: number, bet: number): boolean {
+    if (!this.active) return false;
+    if (balance < bet) {
+      this.stop("balance");
+      return false;
+    }
+
+    this.spinsPlayed++;
+    return true;
+  }
+
+  /**
+   * Check the stop conditions once a round has been paid
+   */
+  public endRound(round: AutoplayRound): void {
+    if (!this.active) return;
+
+    const { lossLimit, winLimit, stopOnFeature } = this.settings;
+    if (winLimit !== null && round.win >= winLimit) {
+      this.stop("winLimit");
+    } else if (
+      lossLimit !== null &&
+      this.startBalance - round.balance >= lossLimit
+    ) {
+      this.stop("lossLimit");
+    } else if (stopOnFeature && round.featureTriggered) {
+      this.stop("feature");
+    } else if (this.spinsLeft <= 0) {
+      this.stop("spinsDone");
+    }
+  }
+
+  /**
+   * End the session, the first reason given is the one kept
+   */
+  public stop(reason: AutoplayStopReason): void {
+    this.reason ??= reason;
+  }
+}
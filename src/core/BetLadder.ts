@@ -0,0 +1,115 @@
+import { GAME_CONFIG } from "../config/game.config";
+import { PAYTABLE } from "../config/paytable.config";
+import { GRID } from "../math/grid";
+import { roundAmount } from "../math/WinEvaluator";
+
+/**
+ * The player's bet: a coin value, a bet level and the active lines, each
+ * stepped through its allowed choices.
+ * The total bet is what a spin costs and what the paytable pays against.
+ */
+export class BetLadder {
+  private coinValues: number[];
+  private levels: number[];
+  private lineOptions: number[];
+
+  private coinIndex: number;
+  private levelIndex: number;
+  private linesIndex: number;
+
+  constructor(settings: typeof GAME_CONFIG.bet = GAME_CONFIG.bet) {
+    this.coinValues = settings.coinValues;
+    this.levels = settings.levels;
+    this.lineOptions = [...GRID.lineOptions];
+
+    this.coinIndex = indexOrLast(this.coinValues, settings.defaultCoinValue);
+    this.levelIndex = indexOrLast(this.levels, settings.defaultLevel);
+    this.linesIndex = indexOrLast(this.lineOptions, GRID.defaultLines);
+  }
+
+  public get coinValue(): number {
+    return this.coinValues[this.coinIndex];
+  }
+
+  public get level(): number {
+    return this.levels[this.levelIndex];
+  }
+
+  public get lines(): number {
+    return this.lineOptions[this.linesIndex];
+  }
+
+  /**
+   * Coins bet per level: the active lines, or the fixed ways units
+   */
+  public get betUnits(): number {
+    return GAME_CONFIG.winEvaluation === "ways"
+      ? PAYTABLE.waysBetUnits
+      : this.lines;
+  }
+
+  public get totalBet(): number {
+    return roundAmount(this.coinValue * this.level * this.betUnits);
+  }
+
+  public get isMaxBet(): boolean {
+    return (
+      this.coinIndex === this.coinValues.length - 1 &&
+      this.levelIndex === this.levels.length - 1 &&
+      this.linesIndex === this.lineOptions.length - 1
+    );
+  }
+
+  /**
+   * Step the coin value up (1) or down (-1), false at either end
+   */
+  public stepCoinValue(direction: 1 | -1): boolean {
+    return this.step("coinIndex", this.coinValues.length, direction);
+  }
+
+  public stepLevel(direction: 1 | -1): boolean {
+    return this.step("levelIndex", this.levels.length, direction);
+  }
+
+  public stepLines(direction: 1 | -1): boolean {
+    return this.step("linesIndex", this.lineOptions.length, direction);
+  }
+
+  /**
+   * Set the active lines, false if the count is not one of the choices
+   */
+  public setLines(count: number): boolean {
+    const index = this.lineOptions.indexOf(count);
+    if (index === -1) return false;
+    this.linesIndex = index;
+    return true;
+  }
+
+  /**
+   * Highest coin value, level and lines
+   */
+  public setMaxBet(): void {
+    this.coinIndex = this.coinValues.length - 1;
+    this.levelIndex = this.levels.length - 1;
+    this.linesIndex = this.lineOptions.length - 1;
+  }
+
+  private step(
+    field: "coinIndex" | "levelIndex" | "linesIndex",
+    count: number,
+    direction: 1 | -1
+  ): boolean {
+    const index = this[field] + direction;
+    if (index < 0 || index >= count) return false;
+    this[field] = index;
+    return true;
+  }
+}
+
+/**
+ * Index of `value` in `choices`, the last choice when it is missing
+ */
+function indexOrLast(choices: number[], value: number): number {
+  const index = choices.indexOf(value);
+  return index === -1 ? choices.length - 1 : index;
+}
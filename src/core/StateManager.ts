@@ -1,10 +1,14 @@
-import { STATES } from "./types/type";
+import { EventEmitter } from "eventemitter3";
+import { FEATURE_STATES, STATES } from "./types/type";
 
 export class StateManager {
   private currentAppState: keyof typeof STATES;
+  private currentFeatureState: keyof typeof FEATURE_STATES;
+  private events: EventEmitter = new EventEmitter();
 
   constructor() {
     this.currentAppState = STATES.INITIAL;
+    this.currentFeatureState = FEATURE_STATES.BASE_GAME;
   }
 
   public getAppState(): keyof typeof STATES {
@@ -13,10 +17,26 @@ export class StateManager {
 
   public setAppState(newState: keyof typeof STATES): void {
     this.currentAppState = newState;
+    this.events.emit("stateChange");
   }
 
+  /**
+   * Feature the game is in, base game or a bonus round
+   */
+  public getFeatureState(): keyof typeof FEATURE_STATES {
+    return this.currentFeatureState;
+  }
+
+  public setFeatureState(newState: keyof typeof FEATURE_STATES): void {
+    if (newState === this.currentFeatureState) return;
+    this.currentFeatureState = newState;
+    this.events.emit("stateChange");
+  }
+
+  /**
+   * Listen for app or feature state changes
+   */
   public onStateChange(callback: () => void): void {
-    // Placeholder for state change listener logic
-    // In a real implementation, you might use an event emitter or observer pattern
+    this.events.on("stateChange", callback);
   }
 }
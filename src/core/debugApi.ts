@@ -0,0 +1,12 @@
+declare global {
+  interface Window {
+    slotDebug?: Record<string, unknown>;
+  }
+}
+
+/**
+ * Expose helpers on `window.slotDebug` for QA and bug reports
+ */
+export function registerDebugApi(api: Record<string, unknown>): void {
+  window.slotDebug = { ...window.slotDebug, ...api };
+}
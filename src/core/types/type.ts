@@ -3,3 +3,212 @@ export const STATES = {
   LOADING: "LOADING",
   READY: "READY",
 } as const;
+
+/**
+ * Which part of the game flow is running once the app is READY
+ */
+export const FEATURE_STATES = {
+  BASE_GAME: "BASE_GAME",
+  FREE_SPINS: "FREE_SPINS",
+  HOLD_AND_WIN: "HOLD_AND_WIN",
+  PICK_BONUS: "PICK_BONUS",
+} as const;
+
+/**
+ * Parameters sent with every spin request
+ */
+export interface SpinRequest {
+  bet: number;
+  // Number of paylines in play, counted from the first declared line
+  lines: number;
+  // Played inside free spins: no stake is taken for it
+  freeSpin?: boolean;
+  // [reel, row] of sticky wilds carried over from the previous spin
+  stickyWilds?: [number, number][];
+  // Wallet round the spin belongs to, a remote wallet pays it from this
+  roundId?: string;
+}
+
+export interface SpinResult {
+  // Index into each reel strip of the symbol landing on the top row
+  stopPositions: number[];
+  reelSymbols: string[][];
+  // Grid the wins were evaluated on, after wild behaviours were applied
+  evaluatedSymbols: string[][];
+  // Reels a wild expanded to cover
+  expandedReels: number[];
+  // Reels fully covered by a character, their effect is in the wins
+  characterColumns: CharacterColumn[];
+  // [reel, row] of wilds to hold in place for the next spin
+  stickyWilds: [number, number][];
+  winningLines: WinLine[];
+  waysWins: WaysWin[];
+  scatterWin: ScatterWin | null;
+  // Tumbles after the first evaluation, empty unless cascades are enabled
+  cascades: CascadeStep[];
+  // Hold & Win bonus triggered by this spin, played out in full
+  holdAndWin: HoldAndWinResult | null;
+  // Pick bonus triggered by this spin, every pick decided up front
+  pickBonus: PickBonusResult | null;
+  // Progressive pools won by this spin, paid from the pool and not in totalWin
+  jackpotsWon: JackpotTier[];
+  // Free spins started (or added, when retriggered) by this spin
+  freeSpinsAwarded: number;
+  totalWin: number;
+}
+
+export interface WinLine {
+  lineNumber: number;
+  // Row index the line passes through on each reel
+  positions: number[];
+  symbols: string[];
+  count: number;
+  // Product of the multiplier wilds the line went through and of any character
+  // or cascade multiplier, 1 without any
+  multiplier: number;
+  payout: number;
+}
+
+/**
+ * A win in "ways" mode: a symbol matched on consecutive reels from the left
+ */
+export interface WaysWin {
+  symbol: string;
+  // Number of combinations, the product of matches on each reel in the span
+  ways: number;
+  // Number of consecutive reels, from the leftmost, that matched
+  reelCount: number;
+  // Matching rows on each reel of the span
+  positions: number[][];
+  payout: number;
+}
+
+/**
+ * Scatters pay anywhere on the grid, as a multiple of the total bet
+ */
+export interface ScatterWin {
+  symbol: string;
+  count: number;
+  // [reel, row] of every scatter on the grid
+  positions: [number, number][];
+  payout: number;
+}
+
+/**
+ * One tumble: the previous wins are removed, the symbols above drop down and
+ * new ones fall in from the strip, then the grid is evaluated again
+ */
+export interface CascadeStep {
+  // [reel, row] of the symbols removed from the previous grid
+  removed: [number, number][];
+  // Grid after the drop and refill
+  reelSymbols: string[][];
+  // Multiplier of this cascade, already included in the payouts
+  multiplier: number;
+  winningLines: WinLine[];
+  waysWins: WaysWin[];
+  win: number;
+}
+
+/**
+ * A reel that landed fully covered by MAN or WOMAN
+ */
+export interface CharacterColumn {
+  reel: number;
+  character: string;
+}
+
+export type JackpotTier = "MINI" | "MINOR" | "MAJOR" | "GRAND";
+
+/**
+ * Current state of a progressive jackpot pool
+ */
+export interface JackpotPool {
+  tier: JackpotTier;
+  value: number;
+  // What the pool restarts from once won
+  seed: number;
+}
+
+/**
+ * A cash-value coin held during the Hold & Win bonus
+ */
+export interface Coin {
+  reel: number;
+  row: number;
+  // Currency amount, already scaled by the bet. 0 for a progressive jackpot.
+  value: number;
+  jackpot: JackpotTier | null;
+}
+
+/**
+ * One respin of the Hold & Win bonus: every cell without a coin spins on its
+ * own, on the strip of its reel
+ */
+export interface RespinStep {
+  // Strip index each cell landed on, [reel][row], null for held coins
+  cellStops: (number | null)[][];
+  newCoins: Coin[];
+  // Respins left after this one, back to the full count when a coin landed
+  respinsLeft: number;
+}
+
+export interface HoldAndWinResult {
+  triggerCoins: Coin[];
+  respins: RespinStep[];
+  // Every coin held when the bonus ended
+  coins: Coin[];
+  totalWin: number;
+}
+
+export type PickPrizeType = "cash" | "multiplier" | "collect";
+
+/**
+ * What one hidden item of the pick bonus holds
+ */
+export interface PickPrize {
+  type: PickPrizeType;
+  // Currency amount for cash, the factor for a multiplier, 0 for collect
+  value: number;
+}
+
+/**
+ * Pick bonus played out in advance: whichever item the player clicks next
+ * reveals the next prize
+ */
+export interface PickBonusResult {
+  // Prizes in reveal order, the bonus ends after the last one
+  picks: PickPrize[];
+  // Prizes left on the board, shown once the bonus ends
+  unpicked: PickPrize[];
+  // Product of the multipliers picked, applied to the cash total
+  multiplier: number;
+  totalWin: number;
+}
+
+export type CardColour = "RED" | "BLACK";
+export type CardSuit = "HEARTS" | "DIAMONDS" | "CLUBS" | "SPADES";
+
+/**
+ * Parameters of one gamble on a pending win
+ */
+export interface GambleRequest {
+  // Win being risked, a remote wallet gambles what it holds for the round
+  stake: number;
+  // Wallet round whose held win is risked
+  roundId?: string;
+  // A colour pays double, a suit pays four times
+  guess: CardColour | CardSuit;
+  // Gambles already won on this win, 0 for the first
+  round: number;
+}
+
+export interface GambleResult {
+  // Suit of the card drawn
+  card: CardSuit;
+  won: boolean;
+  // What the pending win becomes, 0 when lost
+  win: number;
+}
+
+export type WinEvaluationMode = "lines" | "ways";
@@ -6,6 +6,8 @@ import { gsap } from "gsap";
 
 import { PixiPlugin } from "gsap/PixiPlugin";
 import { updateLayoutConfig } from "./config/layout.config";
+import { RngService } from "./services/RngService";
+import { registerDebugApi } from "./core/debugApi";
 
 (async () => {
   const app = new Application({
@@ -23,6 +25,14 @@ import { updateLayoutConfig } from "./config/layout.config";
     app,
   });
 
+  // Seed from ?seed=12345&spin=37 or window.slotDebug.setSeed(12345, 37)
+  const rng = RngService.getInstance();
+  rng.configureFromQuery(window.location.search);
+  registerDebugApi({
+    setSeed: (seed: number, nextSpin?: number) => rng.setSeed(seed, nextSpin),
+    getSeed: () => ({ seed: rng.getSeed(), spin: rng.getSpinIndex() }),
+  });
+
   gsap.registerPlugin(PixiPlugin);
   PixiPlugin.registerPIXI(PIXI);
   const gameController = new GameController(app);
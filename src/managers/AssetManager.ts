@@ -379,4 +379,21 @@ export class AssetManager {
       symbolsSpritesheet.textures[char.newSymbolName] = renderTexture;
     }
   }
+
+  /**
+   * Adds a loaded image to the symbols spritesheet under `frameName`,
+   * for symbols that have no frame in the spritesheet itself.
+   */
+  public addImageSymbolTexture(imageName: string, frameName: string): void {
+    const symbolsSpritesheet = this.getSpritesheet(ASSET_NAMES.SYMBOLS);
+    const texture = this.getTexture(imageName);
+    if (!symbolsSpritesheet || !texture) {
+      console.error(
+        `Cannot add symbol '${frameName}': spritesheet or image '${imageName}' not loaded.`
+      );
+      return;
+    }
+
+    symbolsSpritesheet.textures[frameName] = texture;
+  }
 }
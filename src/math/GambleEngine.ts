@@ -0,0 +1,58 @@
+import { GAME_CONFIG } from "../config/game.config";
+import {
+  CardColour,
+  CardSuit,
+  GambleRequest,
+  GambleResult,
+} from "../core/types/type";
+import { randomInt, Rng } from "./Rng";
+import { roundAmount } from "./WinEvaluator";
+
+export type GambleSettings = typeof GAME_CONFIG.gamble;
+
+export const CARD_SUITS: CardSuit[] = ["HEARTS", "DIAMONDS", "CLUBS", "SPADES"];
+
+export function getSuitColour(suit: CardSuit): CardColour {
+  return suit === "HEARTS" || suit === "DIAMONDS" ? "RED" : "BLACK";
+}
+
+/**
+ * What a correct guess multiplies the stake by
+ */
+export function getGamblePays(guess: GambleRequest["guess"]): number {
+  return guess === "RED" || guess === "BLACK" ? 2 : 4;
+}
+
+/**
+ * Draws the card of a gamble. Every guess is a fair bet, the gamble does not
+ * move the RTP. Pure game math, like SpinEngine.
+ */
+export class GambleEngine {
+  private settings: GambleSettings;
+
+  constructor(settings: GambleSettings = GAME_CONFIG.gamble) {
+    this.settings = settings;
+  }
+
+  /**
+   * Whether another gamble may be taken after `round` won ones
+   */
+  public canGamble(round: number): boolean {
+    return this.settings.enabled && round < this.settings.maxRounds;
+  }
+
+  public play(request: GambleRequest, rng: Rng): GambleResult {
+    if (!this.canGamble(request.round)) {
+      throw new Error(`Gamble round ${request.round + 1} is not allowed`);
+    }
+
+    const card = CARD_SUITS[randomInt(rng, CARD_SUITS.length)];
+    const won = request.guess === card || request.guess === getSuitColour(card);
+
+    return {
+      card,
+      won,
+      win: won ? roundAmount(request.stake * getGamblePays(request.guess)) : 0,
+    };
+  }
+}
@@ -0,0 +1,90 @@
+import { GAME_CONFIG } from "../config/game.config";
+import { Coin, HoldAndWinResult, RespinStep } from "../core/types/type";
+import { pickWeighted, randomInt, Rng } from "./Rng";
+import { roundAmount } from "./WinEvaluator";
+import { GRID } from "./grid";
+
+export const COIN = "COIN";
+
+export type HoldAndWinSettings = typeof GAME_CONFIG.holdAndWin;
+
+/**
+ * Plays the Hold & Win bonus: coins lock in place and every other cell
+ * respins on its own until the respins run out or the grid is full.
+ * Pure game math, like SpinEngine.
+ */
+export class HoldAndWinEngine {
+  private settings: HoldAndWinSettings;
+
+  constructor(settings: HoldAndWinSettings = GAME_CONFIG.holdAndWin) {
+    this.settings = settings;
+  }
+
+  /**
+   * Play the whole bonus if the grid holds enough coins, null otherwise
+   */
+  public play(
+    grid: string[][],
+    bet: number,
+    rng: Rng
+  ): HoldAndWinResult | null {
+    if (!this.settings.enabled) return null;
+
+    const triggerCoins: Coin[] = [];
+    grid.forEach((column, reel) =>
+      column.forEach((symbol, row) => {
+        if (symbol === COIN)
+          triggerCoins.push(this.drawCoin(reel, row, bet, rng));
+      })
+    );
+    if (triggerCoins.length < this.settings.triggerCount) return null;
+
+    const coins = [...triggerCoins];
+    const respins: RespinStep[] = [];
+    const cellCount = grid.reduce((sum, column) => sum + column.length, 0);
+    let respinsLeft = this.settings.respins;
+
+    while (respinsLeft > 0 && coins.length < cellCount) {
+      const newCoins: Coin[] = [];
+      const cellStops = grid.map((column, reel) =>
+        column.map((_, row) => {
+          if (coins.some((coin) => coin.reel === reel && coin.row === row)) {
+            return null;
+          }
+          const strip = GRID.strips[reel];
+          const stop = randomInt(rng, strip.length);
+          if (strip[stop] === COIN) {
+            newCoins.push(this.drawCoin(reel, row, bet, rng));
+          }
+          return stop;
+        })
+      );
+
+      coins.push(...newCoins);
+      respinsLeft =
+        newCoins.length > 0 ? this.settings.respins : respinsLeft - 1;
+      respins.push({ cellStops, newCoins, respinsLeft });
+    }
+
+    return {
+      triggerCoins,
+      respins,
+      coins,
+      totalWin: roundAmount(coins.reduce((sum, coin) => sum + coin.value, 0)),
+    };
+  }
+
+  /**
+   * Give a coin a value from the weighted table
+   */
+  private drawCoin(reel: number, row: number, bet: number, rng: Rng): Coin {
+    const entry = pickWeighted(rng, this.settings.coinValues);
+
+    return {
+      reel,
+      row,
+      value: roundAmount(entry.value * bet),
+      jackpot: entry.jackpot,
+    };
+  }
+}
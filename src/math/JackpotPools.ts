@@ -0,0 +1,84 @@
+import { GAME_CONFIG } from "../config/game.config";
+import { JackpotPool, JackpotTier } from "../core/types/type";
+import { roundAmount } from "./WinEvaluator";
+
+export type JackpotSettings = typeof GAME_CONFIG.jackpots;
+
+/**
+ * Progressive jackpot pools: every paid bet feeds them and a win resets the
+ * pool to its seed. Holds no storage of its own, so the client, a server and
+ * the RTP simulator can all keep their pools with it.
+ */
+export class JackpotPools {
+  private settings: JackpotSettings;
+  private values: Partial<Record<JackpotTier, number>> = {};
+
+  constructor(
+    settings: JackpotSettings = GAME_CONFIG.jackpots,
+    values: Partial<Record<JackpotTier, number>> = {}
+  ) {
+    this.settings = settings;
+    for (const tier of this.getTiers()) {
+      const value = values[tier];
+      this.values[tier] =
+        typeof value === "number" && Number.isFinite(value)
+          ? value
+          : this.getSeed(tier);
+    }
+  }
+
+  /**
+   * Whether the tier is paid from a pool rather than a fixed coin value
+   */
+  public isProgressive(tier: JackpotTier): boolean {
+    return this.settings.pools[tier] !== undefined;
+  }
+
+  /**
+   * Add a bet's share to every pool
+   */
+  public contribute(bet: number): void {
+    for (const tier of this.getTiers()) {
+      const contribution = this.settings.pools[tier]?.contribution ?? 0;
+      // Kept unrounded, small bets would otherwise never move a pool
+      this.values[tier] = this.getValue(tier) + bet * contribution;
+    }
+  }
+
+  /**
+   * Pay a pool out and reset it to its seed, returns the amount won
+   */
+  public award(tier: JackpotTier): number {
+    if (!this.isProgressive(tier)) return 0;
+    const won = roundAmount(this.getValue(tier));
+    this.values[tier] = this.getSeed(tier);
+    return won;
+  }
+
+  /**
+   * Unrounded pool values, for storing the pools between sessions
+   */
+  public getValues(): Partial<Record<JackpotTier, number>> {
+    return { ...this.values };
+  }
+
+  public getPools(): JackpotPool[] {
+    return this.getTiers().map((tier) => ({
+      tier,
+      value: roundAmount(this.getValue(tier)),
+      seed: this.getSeed(tier),
+    }));
+  }
+
+  private getTiers(): JackpotTier[] {
+    return Object.keys(this.settings.pools) as JackpotTier[];
+  }
+
+  private getValue(tier: JackpotTier): number {
+    return this.values[tier] ?? this.getSeed(tier);
+  }
+
+  private getSeed(tier: JackpotTier): number {
+    return this.settings.pools[tier]?.seed ?? 0;
+  }
+}
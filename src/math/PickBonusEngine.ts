@@ -0,0 +1,64 @@
+import { GAME_CONFIG } from "../config/game.config";
+import { PickBonusResult, PickPrize } from "../core/types/type";
+import { pickWeighted, Rng } from "./Rng";
+import { roundAmount } from "./WinEvaluator";
+
+export type PickBonusSettings = typeof GAME_CONFIG.pickBonus;
+
+/**
+ * Decides the pick bonus up front: the whole board is drawn and revealed in
+ * order until the first collect, so the client only presents it.
+ * Pure game math, like SpinEngine.
+ */
+export class PickBonusEngine {
+  private settings: PickBonusSettings;
+
+  constructor(settings: PickBonusSettings = GAME_CONFIG.pickBonus) {
+    this.settings = settings;
+  }
+
+  /**
+   * Play the bonus if the trigger landed, null otherwise
+   */
+  public play(
+    reelSymbols: string[][],
+    bet: number,
+    rng: Rng
+  ): PickBonusResult | null {
+    if (!this.settings.enabled || !this.isTriggered(reelSymbols)) return null;
+
+    const board = Array.from({ length: this.settings.items }, (_, item) =>
+      this.drawPrize(bet, rng, item === 0)
+    );
+    const collectIndex = board.findIndex((prize) => prize.type === "collect");
+    const picks =
+      collectIndex === -1 ? board : board.slice(0, collectIndex + 1);
+
+    const cash = picks
+      .filter((prize) => prize.type === "cash")
+      .reduce((sum, prize) => sum + prize.value, 0);
+    const multiplier = picks
+      .filter((prize) => prize.type === "multiplier")
+      .reduce((product, prize) => product * prize.value, 1);
+
+    return {
+      picks,
+      unpicked: board.slice(picks.length),
+      multiplier,
+      totalWin: roundAmount(cash * multiplier),
+    };
+  }
+
+  private isTriggered(reelSymbols: string[][]): boolean {
+    const { symbol, reels } = this.settings.trigger;
+    return reels.every((reel) => reelSymbols[reel]?.includes(symbol));
+  }
+
+  private drawPrize(bet: number, rng: Rng, firstPick: boolean): PickPrize {
+    const entries = firstPick
+      ? this.settings.prizes.filter((entry) => entry.type !== "collect")
+      : this.settings.prizes;
+    const { type, value } = pickWeighted(rng, entries);
+    return { type, value: type === "cash" ? roundAmount(value * bet) : value };
+  }
+}
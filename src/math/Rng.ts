@@ -0,0 +1,57 @@
+/**
+ * Source of uniformly distributed random numbers in [0, 1)
+ */
+export interface Rng {
+  random(): number;
+}
+
+/**
+ * Small, fast seedable PRNG (mulberry32).
+ * The same seed always produces the same sequence.
+ */
+export class SeededRng implements Rng {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  public random(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+}
+
+/**
+ * Random integer in [0, max)
+ */
+export function randomInt(rng: Rng, max: number): number {
+  return Math.floor(rng.random() * max);
+}
+
+/**
+ * Pick one entry, each as likely as its share of the total weight
+ */
+export function pickWeighted<T extends { weight: number }>(
+  rng: Rng,
+  entries: T[]
+): T {
+  const totalWeight = entries.reduce((sum, entry) => sum + entry.weight, 0);
+  let pick = randomInt(rng, totalWeight);
+  return entries.find((entry) => (pick -= entry.weight) < 0) ?? entries[0];
+}
+
+/**
+ * Mix a seed with extra values into a new well-spread 32-bit seed
+ */
+export function mixSeed(seed: number, ...values: number[]): number {
+  let hash = seed >>> 0;
+  for (const value of values) {
+    hash = Math.imul(hash ^ (value >>> 0), 0x9e3779b1);
+    hash ^= hash >>> 16;
+  }
+  return hash >>> 0;
+}
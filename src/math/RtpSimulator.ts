@@ -0,0 +1,325 @@
+import { SpinEngine } from "./SpinEngine";
+import { SeededRng } from "./Rng";
+import { JackpotPools } from "./JackpotPools";
+import { JackpotTier, SpinResult } from "../core/types/type";
+
+export interface SimulationOptions {
+  spins: number;
+  bet: number;
+  lines: number;
+  seed: number;
+}
+
+export interface WinBucket {
+  label: string;
+  // Bounds in multiples of the bet, `min` inclusive and `max` exclusive
+  min: number;
+  max: number;
+  count: number;
+  frequency: number;
+  rtpContribution: number;
+}
+
+export interface SymbolContribution {
+  symbol: string;
+  hits: number;
+  totalWin: number;
+  rtpContribution: number;
+}
+
+export interface FreeSpinsStats {
+  triggers: number;
+  // Base game spins per trigger
+  triggerInterval: number;
+  retriggers: number;
+  spinsPlayed: number;
+  // Without the bonuses triggered in free spins, they count in their own stats
+  averageWin: number;
+  rtpContribution: number;
+}
+
+export interface HoldAndWinStats {
+  triggers: number;
+  // Spins per trigger
+  triggerInterval: number;
+  averageWin: number;
+  rtpContribution: number;
+  jackpots: Record<JackpotTier, number>;
+}
+
+export interface PickBonusStats {
+  triggers: number;
+  // Spins per trigger
+  triggerInterval: number;
+  averageWin: number;
+  rtpContribution: number;
+}
+
+export interface JackpotStats {
+  tier: JackpotTier;
+  wins: number;
+  averageWin: number;
+  rtpContribution: number;
+}
+
+export interface SimulationReport {
+  options: SimulationOptions;
+  totalBet: number;
+  totalWin: number;
+  rtp: number;
+  hitFrequency: number;
+  // Standard deviation of a single spin's win, in multiples of the bet
+  standardDeviation: number;
+  maxWin: { amount: number; multiplier: number; spin: number };
+  buckets: WinBucket[];
+  symbols: SymbolContribution[];
+  freeSpins: FreeSpinsStats;
+  holdAndWin: HoldAndWinStats;
+  pickBonus: PickBonusStats;
+  // Progressive pools, fed by every paid spin and reset to their seed when won
+  jackpots: JackpotStats[];
+  durationMs: number;
+}
+
+// Win size buckets in multiples of the bet
+const BUCKET_BOUNDS: [number, number][] = [
+  [0, 0],
+  [0, 1],
+  [1, 2],
+  [2, 5],
+  [5, 10],
+  [10, 25],
+  [25, 50],
+  [50, 100],
+  [100, Infinity],
+];
+
+/**
+ * Runs the game math headless for many spins and collects statistics.
+ * A spin that triggers free spins plays them all, and their wins count
+ * towards that spin. Progressive jackpots are paid from pools the simulated
+ * spins feed.
+ */
+export class RtpSimulator {
+  private spinEngine: SpinEngine;
+
+  constructor(spinEngine: SpinEngine = new SpinEngine()) {
+    this.spinEngine = spinEngine;
+  }
+
+  public run(
+    options: SimulationOptions,
+    onProgress?: (done: number) => void
+  ): SimulationReport {
+    const startTime = Date.now();
+    const rng = new SeededRng(options.seed);
+    const request = { bet: options.bet, lines: options.lines };
+    const progressStep = Math.max(Math.floor(options.spins / 10), 1);
+
+    let totalWin = 0;
+    let hits = 0;
+    let maxWin = { amount: 0, multiplier: 0, spin: 0 };
+    const bucketCounts = BUCKET_BOUNDS.map(() => ({ count: 0, win: 0 }));
+    const symbolTotals = new Map<string, { hits: number; win: number }>();
+    const freeSpins = { triggers: 0, retriggers: 0, spinsPlayed: 0, win: 0 };
+    const holdAndWin = {
+      triggers: 0,
+      win: 0,
+      jackpots: { MINI: 0, MINOR: 0, MAJOR: 0, GRAND: 0 },
+    };
+    const pickBonus = { triggers: 0, win: 0 };
+    const pools = new JackpotPools();
+    const jackpotTotals = new Map<JackpotTier, { wins: number; win: number }>();
+
+    // Welford's running variance of the win multiplier
+    let mean = 0;
+    let squaredDiffs = 0;
+
+    for (let spin = 1; spin <= options.spins; spin++) {
+      const result = this.spinEngine.spin(request, rng);
+      const results = [result];
+      pools.contribute(options.bet);
+
+      if (result.freeSpinsAwarded > 0) {
+        freeSpins.triggers++;
+        let remaining = result.freeSpinsAwarded;
+        let stickyWilds: [number, number][] = [];
+        while (remaining > 0) {
+          remaining--;
+          const freeSpin = this.spinEngine.spin(
+            { ...request, freeSpin: true, stickyWilds },
+            rng
+          );
+          stickyWilds = freeSpin.stickyWilds;
+          if (freeSpin.freeSpinsAwarded > 0) freeSpins.retriggers++;
+          remaining += freeSpin.freeSpinsAwarded;
+          freeSpins.spinsPlayed++;
+          freeSpins.win +=
+            freeSpin.totalWin -
+            (freeSpin.holdAndWin?.totalWin ?? 0) -
+            (freeSpin.pickBonus?.totalWin ?? 0);
+          results.push(freeSpin);
+        }
+      }
+
+      let jackpotWin = 0;
+      for (const tier of results.flatMap((r) => r.jackpotsWon)) {
+        const won = pools.award(tier);
+        const totals = jackpotTotals.get(tier) ?? { wins: 0, win: 0 };
+        totals.wins++;
+        totals.win += won;
+        jackpotTotals.set(tier, totals);
+        jackpotWin += won;
+      }
+
+      const roundWin =
+        Math.round(
+          (results.reduce((sum, r) => sum + r.totalWin, 0) + jackpotWin) * 100
+        ) / 100;
+      const multiplier = roundWin / options.bet;
+
+      totalWin += roundWin;
+      if (roundWin > 0) hits++;
+
+      if (roundWin > maxWin.amount) {
+        maxWin = { amount: roundWin, multiplier, spin };
+      }
+
+      const bucket = bucketCounts[this.getBucketIndex(multiplier)];
+      bucket.count++;
+      bucket.win += roundWin;
+
+      for (const bonus of results.map((r) => r.holdAndWin)) {
+        if (!bonus) continue;
+        holdAndWin.triggers++;
+        holdAndWin.win += bonus.totalWin;
+        for (const coin of bonus.coins) {
+          if (coin.jackpot) holdAndWin.jackpots[coin.jackpot]++;
+        }
+      }
+
+      for (const bonus of results.map((r) => r.pickBonus)) {
+        if (!bonus) continue;
+        pickBonus.triggers++;
+        pickBonus.win += bonus.totalWin;
+      }
+
+      for (const win of results.flatMap((r) => this.getSymbolWins(r))) {
+        const totals = symbolTotals.get(win.symbol) ?? { hits: 0, win: 0 };
+        totals.hits++;
+        totals.win += win.payout;
+        symbolTotals.set(win.symbol, totals);
+      }
+
+      const delta = multiplier - mean;
+      mean += delta / spin;
+      squaredDiffs += delta * (multiplier - mean);
+
+      if (onProgress && spin % progressStep === 0) onProgress(spin);
+    }
+
+    const totalBet = options.bet * options.spins;
+
+    return {
+      options,
+      totalBet,
+      totalWin,
+      rtp: totalWin / totalBet,
+      hitFrequency: hits / options.spins,
+      standardDeviation: Math.sqrt(squaredDiffs / options.spins),
+      maxWin,
+      buckets: BUCKET_BOUNDS.map(([min, max], i) => ({
+        label: this.getBucketLabel(min, max),
+        min,
+        max,
+        count: bucketCounts[i].count,
+        frequency: bucketCounts[i].count / options.spins,
+        rtpContribution: bucketCounts[i].win / totalBet,
+      })),
+      symbols: Array.from(symbolTotals.entries())
+        .map(([symbol, totals]) => ({
+          symbol,
+          hits: totals.hits,
+          totalWin: totals.win,
+          rtpContribution: totals.win / totalBet,
+        }))
+        .sort((a, b) => b.rtpContribution - a.rtpContribution),
+      freeSpins: {
+        triggers: freeSpins.triggers,
+        triggerInterval: freeSpins.triggers
+          ? options.spins / freeSpins.triggers
+          : Infinity,
+        retriggers: freeSpins.retriggers,
+        spinsPlayed: freeSpins.spinsPlayed,
+        averageWin: freeSpins.triggers ? freeSpins.win / freeSpins.triggers : 0,
+        rtpContribution: freeSpins.win / totalBet,
+      },
+      holdAndWin: {
+        triggers: holdAndWin.triggers,
+        triggerInterval: holdAndWin.triggers
+          ? options.spins / holdAndWin.triggers
+          : Infinity,
+        averageWin: holdAndWin.triggers
+          ? holdAndWin.win / holdAndWin.triggers
+          : 0,
+        rtpContribution: holdAndWin.win / totalBet,
+        jackpots: holdAndWin.jackpots,
+      },
+      pickBonus: {
+        triggers: pickBonus.triggers,
+        triggerInterval: pickBonus.triggers
+          ? options.spins / pickBonus.triggers
+          : Infinity,
+        averageWin: pickBonus.triggers ? pickBonus.win / pickBonus.triggers : 0,
+        rtpContribution: pickBonus.win / totalBet,
+      },
+      jackpots: pools.getPools().map(({ tier }) => {
+        const totals = jackpotTotals.get(tier) ?? { wins: 0, win: 0 };
+        return {
+          tier,
+          wins: totals.wins,
+          averageWin: totals.wins ? totals.win / totals.wins : 0,
+          rtpContribution: totals.win / totalBet,
+        };
+      }),
+      durationMs: Date.now() - startTime,
+    };
+  }
+
+  /**
+   * Every paying combination of a spin and its cascades, by the symbol that formed it
+   */
+  private getSymbolWins(
+    result: SpinResult
+  ): { symbol: string; payout: number }[] {
+    const steps = [result, ...result.cascades];
+    return [
+      ...steps.flatMap((step) =>
+        step.winningLines.map((line) => ({
+          symbol: line.symbols[0],
+          payout: line.payout,
+        }))
+      ),
+      ...steps.flatMap((step) =>
+        step.waysWins.map((win) => ({
+          symbol: win.symbol,
+          payout: win.payout,
+        }))
+      ),
+      ...(result.scatterWin ? [result.scatterWin] : []),
+    ];
+  }
+
+  private getBucketIndex(multiplier: number): number {
+    if (multiplier === 0) return 0;
+    return BUCKET_BOUNDS.findIndex(
+      ([min, max], i) => i > 0 && multiplier >= min && multiplier < max
+    );
+  }
+
+  private getBucketLabel(min: number, max: number): string {
+    if (max === 0) return "no win";
+    if (max === Infinity) return `${min}x+`;
+    return `${min}x-${max}x`;
+  }
+}
@@ -0,0 +1,187 @@
+import { GAME_CONFIG } from "../config/game.config";
+import {
+  CascadeStep,
+  HoldAndWinResult,
+  JackpotTier,
+  ScatterWin,
+  SpinRequest,
+  SpinResult,
+  WinEvaluationMode,
+} from "../core/types/type";
+import { getStripWindow, wrapStripIndex } from "./reelStrips";
+import { GRID } from "./grid";
+import { randomInt, Rng } from "./Rng";
+import { getWinningCells, roundAmount, WinEvaluator } from "./WinEvaluator";
+import { applyWildBehaviours } from "./wilds";
+import { HoldAndWinEngine } from "./HoldAndWinEngine";
+import { PickBonusEngine } from "./PickBonusEngine";
+import {
+  applyCharacterColumns,
+  findCharacterColumns,
+  getCharacterMultiplier,
+} from "./characterColumns";
+
+/**
+ * Outcome generation and evaluation for a single spin.
+ * Synchronous and free of PixiJS/DOM, so the client, the mock server and
+ * the RTP simulator all run exactly the same math.
+ */
+export class SpinEngine {
+  // Safety net, a strip cannot realistically keep paying this long
+  private readonly MAX_CASCADES = 50;
+
+  private winEvaluator: WinEvaluator;
+  private holdAndWinEngine = new HoldAndWinEngine();
+  private pickBonusEngine = new PickBonusEngine();
+
+  constructor(mode: WinEvaluationMode = GAME_CONFIG.winEvaluation) {
+    this.winEvaluator = new WinEvaluator(mode);
+  }
+
+  /**
+   * Draw stops and evaluate them
+   */
+  public spin(request: SpinRequest, rng: Rng): SpinResult {
+    return this.evaluateStops(this.drawStops(rng), request, rng);
+  }
+
+  /**
+   * Pick a random stop on each reel strip
+   */
+  public drawStops(rng: Rng): number[] {
+    return GRID.strips.map((strip) => randomInt(rng, strip.length));
+  }
+
+  /**
+   * Build the full result for known stop positions.
+   * Wild behaviours and character columns reshape the grid before it is
+   * evaluated.
+   * `rng` plays the bonus rounds that are drawn after the reels land.
+   */
+  public evaluateStops(
+    stopPositions: number[],
+    request: SpinRequest,
+    rng: Rng
+  ): SpinResult {
+    const reelSymbols = stopPositions.map((stop, reel) =>
+      getStripWindow(GRID.strips[reel], stop, GRID.rows[reel])
+    );
+
+    const characterColumns = findCharacterColumns(reelSymbols);
+    const wildGrid = applyWildBehaviours(reelSymbols, request);
+    const grid = applyCharacterColumns(wildGrid.symbols, characterColumns);
+    const wins = this.winEvaluator.evaluate(
+      grid,
+      request,
+      getCharacterMultiplier(characterColumns)
+    );
+    const cascades = GAME_CONFIG.cascades.enabled
+      ? this.runCascades(stopPositions, grid, wins, request)
+      : [];
+    const holdAndWin = this.holdAndWinEngine.play(grid, request.bet, rng);
+    const pickBonus = this.pickBonusEngine.play(reelSymbols, request.bet, rng);
+
+    return {
+      stopPositions,
+      reelSymbols,
+      evaluatedSymbols: grid,
+      expandedReels: wildGrid.expandedReels,
+      characterColumns,
+      stickyWilds: wildGrid.stickyWilds,
+      ...wins,
+      cascades,
+      holdAndWin,
+      pickBonus,
+      jackpotsWon: this.getJackpotsWon(holdAndWin),
+      totalWin: roundAmount(
+        wins.totalWin +
+          cascades.reduce((sum, step) => sum + step.win, 0) +
+          (holdAndWin?.totalWin ?? 0) +
+          (pickBonus?.totalWin ?? 0)
+      ),
+      freeSpinsAwarded: this.getFreeSpinsAwarded(wins.scatterWin, request),
+    };
+  }
+
+  /**
+   * Tumble until a grid has no line or ways wins.
+   * Each reel refills from its strip above the symbols already shown, so the
+   * whole sequence follows from the stop positions.
+   */
+  private runCascades(
+    stopPositions: number[],
+    grid: string[][],
+    firstWins: Pick<SpinResult, "winningLines" | "waysWins">,
+    request: SpinRequest
+  ): CascadeStep[] {
+    const { multipliers } = GAME_CONFIG.cascades;
+    const cascades: CascadeStep[] = [];
+    // Strip index of the top row on each reel
+    const topIndices = [...stopPositions];
+    let wins = firstWins;
+
+    while (cascades.length < this.MAX_CASCADES) {
+      const removed = getWinningCells(wins.winningLines, wins.waysWins);
+      if (removed.length === 0) break;
+
+      grid = grid.map((column, reel) => {
+        const kept = column.filter(
+          (_, row) => !removed.some(([r, rr]) => r === reel && rr === row)
+        );
+        const dropIn = column.length - kept.length;
+        const strip = GRID.strips[reel];
+        topIndices[reel] = wrapStripIndex(strip, topIndices[reel] - dropIn);
+        return [...getStripWindow(strip, topIndices[reel], dropIn), ...kept];
+      });
+
+      const multiplier =
+        multipliers[Math.min(cascades.length, multipliers.length - 1)];
+      const { winningLines, waysWins } = this.winEvaluator.evaluatePays(
+        grid,
+        request,
+        multiplier
+      );
+
+      cascades.push({
+        removed,
+        reelSymbols: grid,
+        multiplier,
+        winningLines,
+        waysWins,
+        win: roundAmount(
+          this.winEvaluator.getTotalWin(winningLines) +
+            this.winEvaluator.getTotalWaysWin(waysWins)
+        ),
+      });
+      wins = { winningLines, waysWins };
+    }
+
+    return cascades;
+  }
+
+  /**
+   * Progressive tiers of the jackpot coins a Hold & Win bonus ended with
+   */
+  private getJackpotsWon(holdAndWin: HoldAndWinResult | null): JackpotTier[] {
+    const { pools } = GAME_CONFIG.jackpots;
+    return (holdAndWin?.coins ?? [])
+      .map((coin) => coin.jackpot)
+      .filter((tier): tier is JackpotTier => tier !== null && !!pools[tier]);
+  }
+
+  /**
+   * Free spins started by a scatter win.
+   * During free spins scatters only add more when retriggers are enabled.
+   */
+  private getFreeSpinsAwarded(
+    scatterWin: ScatterWin | null,
+    request: SpinRequest
+  ): number {
+    if (!scatterWin) return 0;
+    if (request.freeSpin && !GAME_CONFIG.freeSpins.retrigger) return 0;
+
+    const { awards } = GAME_CONFIG.freeSpins;
+    const counts = Object.keys(awards).map(Number);
+    return awards[Math.min(scatterWin.count, Math.max(...counts))] ?? 0;
+  }
+}
@@ -0,0 +1,326 @@
+import { GAME_CONFIG } from "../config/game.config";
+import {
+  PAYTABLE,
+  SCATTER_PAYTABLE,
+  SymbolPays,
+} from "../config/paytable.config";
+import {
+  ScatterWin,
+  SpinRequest,
+  SpinResult,
+  WaysWin,
+  WinEvaluationMode,
+  WinLine,
+} from "../core/types/type";
+import { WILD } from "./wilds";
+import { GRID } from "./grid";
+
+export type EvaluatedWins = Pick<
+  SpinResult,
+  "winningLines" | "waysWins" | "scatterWin" | "totalWin"
+>;
+
+/**
+ * Evaluates a grid of symbols into wins, either along paylines or as ways.
+ * Pure game math - no PixiJS or DOM access, so it runs on the server too.
+ */
+export class WinEvaluator {
+  private mode: WinEvaluationMode;
+  private wildMultiplier: number;
+
+  constructor(
+    mode: WinEvaluationMode = "lines",
+    wildMultiplier: number = GAME_CONFIG.wilds.multiplier
+  ) {
+    this.mode = mode;
+    this.wildMultiplier = wildMultiplier;
+  }
+
+  /**
+   * Evaluate a grid with the configured mode.
+   * `payMultiplier` scales line and ways wins, scatters pay unmultiplied.
+   */
+  public evaluate(
+    reelSymbols: string[][],
+    request: SpinRequest,
+    payMultiplier = 1
+  ): EvaluatedWins {
+    const { winningLines, waysWins } = this.evaluatePays(
+      reelSymbols,
+      request,
+      payMultiplier
+    );
+    const scatterWin = this.calculateScatterWin(reelSymbols, request.bet);
+
+    return {
+      winningLines,
+      waysWins,
+      scatterWin,
+      totalWin: roundAmount(
+        this.getTotalWin(winningLines) +
+          this.getTotalWaysWin(waysWins) +
+          (scatterWin?.payout ?? 0)
+      ),
+    };
+  }
+
+  /**
+   * Line or ways wins of a grid, without scatters
+   */
+  public evaluatePays(
+    reelSymbols: string[][],
+    request: SpinRequest,
+    payMultiplier = 1
+  ): Pick<SpinResult, "winningLines" | "waysWins"> {
+    const winningLines =
+      this.mode === "lines"
+        ? this.calculateWins(reelSymbols, request.bet, request.lines)
+        : [];
+    const waysWins =
+      this.mode === "ways"
+        ? this.calculateWaysWins(reelSymbols, request.bet)
+        : [];
+    if (payMultiplier === 1) return { winningLines, waysWins };
+
+    return {
+      winningLines: winningLines.map((line) => ({
+        ...line,
+        multiplier: line.multiplier * payMultiplier,
+        payout: roundAmount(line.payout * payMultiplier),
+      })),
+      waysWins: waysWins.map((win) => ({
+        ...win,
+        payout: roundAmount(win.payout * payMultiplier),
+      })),
+    };
+  }
+
+  /**
+   * Calculate wins from the spin result
+   * Walks the first `activeLines` declared paylines, counting matches from the left.
+   * Payouts are currency amounts for the given total bet.
+   */
+  public calculateWins(
+    reelSymbols: string[][],
+    bet: number,
+    activeLines: number = GRID.paylines.length
+  ): WinLine[] {
+    const winningLines: WinLine[] = [];
+    const lines = GRID.paylines.slice(0, activeLines);
+
+    lines.forEach((positions, lineIndex) => {
+      // Get symbols from each reel along this line
+      const lineSymbols = positions.map((row, reel) => reelSymbols[reel][row]);
+
+      // Leading wilds take the first other symbol on the line
+      const wildRun = countFromLeft(lineSymbols, WILD);
+      const lineSymbol = lineSymbols[wildRun] ?? WILD;
+      const matchCount = countFromLeft(lineSymbols, lineSymbol);
+
+      // Wilds alone can pay more than what they complete
+      const symbolPayout = this.getPayout(
+        lineSymbol,
+        matchCount,
+        bet,
+        lines.length
+      );
+      const wildPayout = this.getPayout(WILD, wildRun, bet, lines.length);
+      const [symbol, count, payout] =
+        wildPayout > symbolPayout
+          ? [WILD, wildRun, wildPayout]
+          : [lineSymbol, matchCount, symbolPayout];
+
+      // Check if we have a winning combination (3 or more)
+      if (payout > 0) {
+        const multiplier = lineSymbols
+          .slice(0, count)
+          .reduce(
+            (product, s) =>
+              s === WILD ? product * this.wildMultiplier : product,
+            1
+          );
+
+        winningLines.push({
+          lineNumber: lineIndex + 1,
+          positions: [...positions],
+          // WILDs are replaced by the winning symbol for clarity
+          symbols: new Array(count).fill(symbol),
+          count,
+          multiplier,
+          payout: roundAmount(payout * multiplier),
+        });
+      }
+    });
+
+    return winningLines;
+  }
+
+  /**
+   * Calculate "ways" wins
+   * Any symbol (or WILD) on consecutive reels from the left counts, whatever its row.
+   * The win is multiplied by the number of row combinations that form it,
+   * and each combination by the multiplier wilds it goes through.
+   */
+  public calculateWaysWins(reelSymbols: string[][], bet: number): WaysWin[] {
+    const waysWins: WaysWin[] = [];
+    const candidates = Object.keys(PAYTABLE.symbols).filter(
+      (symbol) => symbol !== WILD
+    );
+
+    for (const symbol of candidates) {
+      const positions: number[][] = [];
+
+      for (const reel of reelSymbols) {
+        const rows = reel
+          .map((s, row) => (s === symbol || s === WILD ? row : -1))
+          .filter((row) => row !== -1);
+        if (rows.length === 0) break;
+        positions.push(rows);
+      }
+
+      // A span made only of wilds is not a win for every symbol
+      const hasSymbol = positions.some((rows, reel) =>
+        rows.some((row) => reelSymbols[reel][row] === symbol)
+      );
+
+      const payPerWay = this.getPayout(
+        symbol,
+        positions.length,
+        bet,
+        PAYTABLE.waysBetUnits
+      );
+      if (payPerWay > 0 && hasSymbol) {
+        const ways = positions.reduce(
+          (product, rows) => product * rows.length,
+          1
+        );
+        // Ways counted again with each wild worth `wildMultiplier` ways
+        const multipliedWays = positions.reduce(
+          (product, rows, reel) =>
+            product *
+            rows.reduce(
+              (sum, row) =>
+                sum +
+                (reelSymbols[reel][row] === WILD ? this.wildMultiplier : 1),
+              0
+            ),
+          1
+        );
+
+        waysWins.push({
+          symbol,
+          ways,
+          reelCount: positions.length,
+          positions,
+          payout: roundAmount(payPerWay * multipliedWays),
+        });
+      }
+    }
+
+    return waysWins;
+  }
+
+  /**
+   * Calculate the scatter win
+   * Scatters count anywhere on the grid and pay on the total bet.
+   * Returns null below the minimum count.
+   */
+  public calculateScatterWin(
+    reelSymbols: string[][],
+    bet: number
+  ): ScatterWin | null {
+    const positions: [number, number][] = [];
+    reelSymbols.forEach((reel, reelIndex) =>
+      reel.forEach((symbol, row) => {
+        if (symbol === SCATTER_PAYTABLE.symbol)
+          positions.push([reelIndex, row]);
+      })
+    );
+
+    if (positions.length < 3) return null;
+
+    const count = positions.length;
+    const multiplier =
+      SCATTER_PAYTABLE.pays[Math.min(count, 5) as keyof SymbolPays];
+
+    return {
+      symbol: SCATTER_PAYTABLE.symbol,
+      count,
+      positions,
+      payout: roundAmount(multiplier * bet),
+    };
+  }
+
+  /**
+   * Sum the payouts of all winning lines
+   */
+  public getTotalWin(winningLines: WinLine[]): number {
+    return roundAmount(
+      winningLines.reduce((sum, line) => sum + line.payout, 0)
+    );
+  }
+
+  /**
+   * Sum the payouts of all ways wins
+   */
+  public getTotalWaysWin(waysWins: WaysWin[]): number {
+    return roundAmount(waysWins.reduce((sum, win) => sum + win.payout, 0));
+  }
+
+  /**
+   * Paytable amount for `count` of a kind, 0 if that does not pay.
+   * The line bet is the total bet split into `betUnits` (lines or ways units).
+   */
+  private getPayout(
+    symbol: string,
+    count: number,
+    bet: number,
+    betUnits: number
+  ): number {
+    const pays = PAYTABLE.symbols[symbol];
+    if (!pays || count < 3) return 0;
+
+    const multiplier = pays[Math.min(count, 5) as keyof typeof pays];
+    const base = PAYTABLE.basis === "totalBet" ? bet : bet / betUnits;
+    return roundAmount(multiplier * base);
+  }
+}
+
+/**
+ * [reel, row] of every cell that is part of a line or ways win, once each
+ */
+export function getWinningCells(
+  winningLines: WinLine[],
+  waysWins: WaysWin[]
+): [number, number][] {
+  const cells = [
+    ...winningLines.flatMap((line) =>
+      line.positions
+        .slice(0, line.count)
+        .map((row, reel): [number, number] => [reel, row])
+    ),
+    ...waysWins.flatMap((win) =>
+      win.positions.flatMap((rows, reel) =>
+        rows.map((row): [number, number] => [reel, row])
+      )
+    ),
+  ];
+
+  const unique = new Map(cells.map((cell) => [cell.join(":"), cell]));
+  return Array.from(unique.values());
+}
+
+/**
+ * Round to whole cents to keep floating point noise out of the balance
+ */
+export function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Number of symbols from the left that are `symbol` or a wild
+ */
+function countFromLeft(lineSymbols: string[], symbol: string): number {
+  const end = lineSymbols.findIndex((s) => s !== symbol && s !== WILD);
+  return end === -1 ? lineSymbols.length : end;
+}
@@ -0,0 +1,115 @@
+import { GAME_CONFIG } from "../config/game.config";
+import { SCATTER_PAYTABLE } from "../config/paytable.config";
+import { SpinRequest } from "../core/types/type";
+import { COIN } from "./HoldAndWinEngine";
+
+export type AnticipationFeature = "freeSpins" | "holdAndWin" | "pickBonus";
+
+/**
+ * A reel that lands while a feature is one symbol away from triggering
+ */
+export interface Anticipation {
+  reel: number;
+  feature: AnticipationFeature;
+}
+
+/**
+ * A feature started by landing enough of one symbol
+ */
+interface Trigger {
+  feature: AnticipationFeature;
+  symbol: string;
+  // Symbols needed on the grid
+  needed: number;
+  // Reels that count towards it
+  reels: number[];
+  // Each reel counts once, however many of the symbol it shows
+  oncePerReel: boolean;
+}
+
+/**
+ * Reels that should spin on in anticipation, given the grid they land on.
+ * Reels stop left to right; one is anticipated when the reels before it
+ * left a feature one symbol short and the reels still to land can complete it.
+ */
+export function getAnticipations(
+  reelSymbols: string[][],
+  request: SpinRequest
+): Anticipation[] {
+  const triggers = getTriggers(reelSymbols.length, request);
+  const anticipations: Anticipation[] = [];
+
+  reelSymbols.forEach((_, reel) => {
+    const trigger = triggers.find((trigger) => {
+      if (!trigger.reels.includes(reel)) return false;
+      const landed = countLanded(trigger, reelSymbols.slice(0, reel));
+      const possible = trigger.reels
+        .filter((other) => other >= reel)
+        .reduce(
+          (sum, other) =>
+            sum + (trigger.oncePerReel ? 1 : reelSymbols[other].length),
+          0
+        );
+      return (
+        landed === trigger.needed - 1 && landed + possible >= trigger.needed
+      );
+    });
+    if (trigger) anticipations.push({ reel, feature: trigger.feature });
+  });
+
+  return anticipations;
+}
+
+/**
+ * Features the spin can still trigger. Character columns are not among them:
+ * one reel landing covered is the whole effect, so there is no count that
+ * the reels before it could leave one short.
+ */
+function getTriggers(reelCount: number, request: SpinRequest): Trigger[] {
+  const allReels = Array.from({ length: reelCount }, (_, reel) => reel);
+  const triggers: Trigger[] = [];
+
+  if (!request.freeSpin || GAME_CONFIG.freeSpins.retrigger) {
+    triggers.push({
+      feature: "freeSpins",
+      symbol: SCATTER_PAYTABLE.symbol,
+      needed: Math.min(
+        ...Object.keys(GAME_CONFIG.freeSpins.awards).map(Number)
+      ),
+      reels: allReels,
+      oncePerReel: false,
+    });
+  }
+  if (GAME_CONFIG.holdAndWin.enabled) {
+    triggers.push({
+      feature: "holdAndWin",
+      symbol: COIN,
+      needed: GAME_CONFIG.holdAndWin.triggerCount,
+      reels: allReels,
+      oncePerReel: false,
+    });
+  }
+  if (GAME_CONFIG.pickBonus.enabled) {
+    const { symbol, reels } = GAME_CONFIG.pickBonus.trigger;
+    triggers.push({
+      feature: "pickBonus",
+      symbol,
+      needed: reels.length,
+      reels: reels.filter((reel) => reel < reelCount),
+      oncePerReel: true,
+    });
+  }
+
+  return triggers;
+}
+
+/**
+ * Trigger symbols on the reels that have already landed
+ */
+function countLanded(trigger: Trigger, landedReels: string[][]): number {
+  return landedReels.reduce((sum, column, reel) => {
+    if (!trigger.reels.includes(reel)) return sum;
+    const count = column.filter((symbol) => symbol === trigger.symbol).length;
+    return sum + (trigger.oncePerReel ? Math.min(count, 1) : count);
+  }, 0);
+}
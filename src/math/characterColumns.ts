@@ -0,0 +1,59 @@
+import { GAME_CONFIG } from "../config/game.config";
+import { CharacterColumn } from "../core/types/type";
+import { WILD } from "./wilds";
+
+export type CharacterColumnsConfig = typeof GAME_CONFIG.characterColumns;
+
+/**
+ * Reels that landed completely covered by one character
+ */
+export function findCharacterColumns(
+  reelSymbols: string[][],
+  config: CharacterColumnsConfig = GAME_CONFIG.characterColumns
+): CharacterColumn[] {
+  const characters = Object.keys(config.multipliers);
+  const columns: CharacterColumn[] = [];
+
+  reelSymbols.forEach((reel, reelIndex) => {
+    const [character] = reel;
+    if (
+      characters.includes(character) &&
+      reel.every((symbol) => symbol === character)
+    ) {
+      columns.push({ reel: reelIndex, character });
+    }
+  });
+
+  return columns;
+}
+
+/**
+ * Multiplier the character columns award, several multiply together.
+ * Always 1 when the columns turn wild instead.
+ */
+export function getCharacterMultiplier(
+  columns: CharacterColumn[],
+  config: CharacterColumnsConfig = GAME_CONFIG.characterColumns
+): number {
+  if (config.effect !== "multiplier") return 1;
+  return columns.reduce(
+    (product, column) => product * config.multipliers[column.character],
+    1
+  );
+}
+
+/**
+ * Grid with the character columns turned wild, when configured to
+ */
+export function applyCharacterColumns(
+  reelSymbols: string[][],
+  columns: CharacterColumn[],
+  config: CharacterColumnsConfig = GAME_CONFIG.characterColumns
+): string[][] {
+  if (config.effect !== "wild") return reelSymbols;
+  return reelSymbols.map((reel, reelIndex) =>
+    columns.some((column) => column.reel === reelIndex)
+      ? reel.map(() => WILD)
+      : reel
+  );
+}
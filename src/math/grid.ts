@@ -0,0 +1,81 @@
+import { GAME_CONFIG } from "../config/game.config";
+import {
+  ACTIVE_LINE_OPTIONS,
+  DEFAULT_ACTIVE_LINES,
+  PAYLINES,
+} from "../config/paylines.config";
+import { REEL_STRIPS } from "../config/reelStrips.config";
+
+export type GridConfig = typeof GAME_CONFIG.grid;
+
+/**
+ * Reel layout the game plays on, resolved from `GAME_CONFIG.grid`
+ */
+export interface Grid {
+  // Visible rows of each reel, left to right
+  rows: number[];
+  // Strip of each reel
+  strips: string[][];
+  // Row index (0 = top) each payline passes through on every reel
+  paylines: number[][];
+  // Active line counts the player can pick, and the one played by default
+  lineOptions: number[];
+  defaultLines: number;
+}
+
+/**
+ * Fit the declared strips and paylines to a grid.
+ * Reels past the declared strips reuse them in turn. Paylines keep their
+ * count: reels past a line's end repeat its last row, and rows below a
+ * shorter reel land on its bottom row.
+ * Rows no declared line reaches, on reels taller than the lines were drawn
+ * for, get a straight line each after the declared ones. They are in play
+ * by default, so every symbol on the grid can pay.
+ */
+export function createGrid(config: GridConfig = GAME_CONFIG.grid): Grid {
+  const rows = Array.from({ length: config.reels }, (_, reel) =>
+    getRows(config.rows, reel)
+  );
+  if (rows.some((count) => !Number.isInteger(count) || count < 1)) {
+    throw new Error(`Every reel needs at least one row, got [${rows}]`);
+  }
+
+  const fitLine = (line: number[]) =>
+    rows.map((count, reel) =>
+      Math.min(line[Math.min(reel, line.length - 1)], count - 1)
+    );
+  const paylines = PAYLINES.map(fitLine);
+
+  for (let row = 0; row < Math.max(...rows); row++) {
+    const reached = rows.every(
+      (count, reel) =>
+        row >= count || paylines.some((line) => line[reel] === row)
+    );
+    if (!reached) paylines.push(fitLine([row]));
+  }
+
+  const added = paylines.length - PAYLINES.length;
+  return {
+    rows,
+    strips: rows.map((_, reel) => REEL_STRIPS[reel % REEL_STRIPS.length]),
+    paylines,
+    lineOptions: [
+      ...ACTIVE_LINE_OPTIONS.filter((count) => count < paylines.length),
+      paylines.length,
+    ],
+    defaultLines: Math.min(DEFAULT_ACTIVE_LINES + added, paylines.length),
+  };
+}
+
+/**
+ * Rows of one reel, a short list repeats its last entry
+ */
+function getRows(rows: GridConfig["rows"], reel: number): number {
+  if (!Array.isArray(rows)) return rows;
+  return rows[Math.min(reel, rows.length - 1)];
+}
+
+/**
+ * The configured grid, shared by the math and the reels on screen
+ */
+export const GRID = createGrid();
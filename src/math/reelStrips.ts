@@ -0,0 +1,21 @@
+/**
+ * Wrap any index onto a circular strip
+ */
+export function wrapStripIndex(strip: string[], index: number): number {
+  return ((index % strip.length) + strip.length) % strip.length;
+}
+
+/**
+ * Symbols visible top to bottom when a strip stops at the given index
+ */
+export function getStripWindow(
+  strip: string[],
+  stopIndex: number,
+  rows: number
+): string[] {
+  const window: string[] = [];
+  for (let row = 0; row < rows; row++) {
+    window.push(strip[wrapStripIndex(strip, stopIndex + row)]);
+  }
+  return window;
+}
@@ -0,0 +1,52 @@
+import { GAME_CONFIG } from "../config/game.config";
+import { SpinRequest } from "../core/types/type";
+
+export const WILD = "WILD";
+
+export type WildBehaviours = typeof GAME_CONFIG.wilds;
+
+export interface WildGrid {
+  symbols: string[][];
+  expandedReels: number[];
+  stickyWilds: [number, number][];
+}
+
+/**
+ * Apply the configured wild behaviours to a landed grid.
+ * Sticky wilds from the request are placed first so they can expand too;
+ * every wild left on the grid sticks for the next free spin.
+ */
+export function applyWildBehaviours(
+  reelSymbols: string[][],
+  request: SpinRequest,
+  behaviours: WildBehaviours = GAME_CONFIG.wilds
+): WildGrid {
+  const symbols = reelSymbols.map((reel) => [...reel]);
+
+  if (behaviours.sticky) {
+    for (const [reel, row] of request.stickyWilds ?? []) {
+      if (symbols[reel]?.[row] !== undefined) symbols[reel][row] = WILD;
+    }
+  }
+
+  const expandedReels: number[] = [];
+  if (behaviours.expanding) {
+    symbols.forEach((reel, reelIndex) => {
+      if (reel.includes(WILD) && !reel.every((symbol) => symbol === WILD)) {
+        reel.fill(WILD);
+        expandedReels.push(reelIndex);
+      }
+    });
+  }
+
+  const stickyWilds: [number, number][] = [];
+  if (behaviours.sticky && request.freeSpin) {
+    symbols.forEach((reel, reelIndex) =>
+      reel.forEach((symbol, row) => {
+        if (symbol === WILD) stickyWilds.push([reelIndex, row]);
+      })
+    );
+  }
+
+  return { symbols, expandedReels, stickyWilds };
+}
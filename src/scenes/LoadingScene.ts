@@ -59,6 +59,14 @@ export class LoadingScene {
 
     // Generate character symbol textures from Spine models
     assetManager.generateSpineSymbolTextures(app.renderer);
+    assetManager.addImageSymbolTexture(
+      ASSET_NAMES.SCATTER,
+      SYMBOLS_CONFIG.SCATTER.filename
+    );
+    assetManager.addImageSymbolTexture(
+      ASSET_NAMES.COIN,
+      SYMBOLS_CONFIG.COIN.filename
+    );
 
     // Add background
     const backgroundTexture = assetManager.getTexture(ASSET_NAMES.BACKGROUND);
@@ -1,24 +1,123 @@
 import { StateManager } from "../core/StateManager";
 import { BaseScene } from "./BaseScene";
-import { SlotMachine } from "../components/SlotMachine";
+import {
+  CascadeEvent,
+  OutcomeErrorEvent,
+  RespinEvent,
+  SlotMachine,
+} from "../components/SlotMachine";
+import { Dialog } from "../components/Dialog";
+import { createOutcomeProvider } from "../services/outcome/createOutcomeProvider";
+import { GAME_CONFIG } from "../config/game.config";
+import {
+  CharacterColumn,
+  FEATURE_STATES,
+  GambleResult,
+  HoldAndWinResult,
+  JackpotTier,
+  PickBonusResult,
+  SpinResult,
+} from "../core/types/type";
+import { roundAmount } from "../math/WinEvaluator";
 
 import { AssetManager } from "../managers/AssetManager";
 import * as PIXI from "pixi.js";
 import { ASSET_NAMES } from "../config/assets.config";
 import { SpineAnimation } from "../spineEntity/SpineAnimation";
 import { Spine } from "@pixi-spine/loader-uni";
+import { PickBonusScene } from "./PickBonusScene";
+import { GamblePanel } from "../components/GamblePanel";
+import { OutcomeProvider } from "../services/outcome/OutcomeProvider";
+import { wait } from "../utils/wait";
+import { JackpotMeters } from "../components/JackpotMeters";
+import { JackpotProvider } from "../services/jackpot/JackpotProvider";
+import { LocalJackpotProvider } from "../services/jackpot/LocalJackpotProvider";
+import { AutoplayPanel, formatSpins } from "../components/AutoplayPanel";
+import {
+  AutoplaySession,
+  AutoplaySettings,
+  AutoplayStopReason,
+} from "../core/AutoplaySession";
+import {
+  DEFAULT_SPIN_PROFILE,
+  SPIN_PROFILE_OPTIONS,
+  SPIN_PROFILES,
+  SpinProfileName,
+} from "../config/spinProfiles.config";
+import { BetLadder } from "../core/BetLadder";
+import { BetPanel } from "../components/BetPanel";
+import { Wallet, WalletError, createRoundId } from "../services/wallet/Wallet";
+import { createWallet } from "../services/wallet/createWallet";
+import { formatCurrency } from "../utils/currency";
+import {
+  GambleStep,
+  RoundHistory,
+  RoundRecord,
+} from "../services/history/RoundHistory";
+import { HistoryPanel } from "../components/HistoryPanel";
+import { ReplayOutcomeProvider } from "../services/outcome/ReplayOutcomeProvider";
+import { LocalWallet } from "../services/wallet/LocalWallet";
+import { RngService } from "../services/RngService";
+import { registerDebugApi } from "../core/debugApi";
 
 export class MainScene extends BaseScene {
+  // Seconds a gamble card stays on show before the panel moves on
+  private readonly GAMBLE_PAUSE = 1;
+  // Seconds between the rounds of autoplay
+  private readonly AUTOPLAY_PAUSE = 0.5;
+  private readonly AUTOPLAY_STOP_MESSAGES: Record<AutoplayStopReason, string> =
+    {
+      spinsDone: "Autoplay finished",
+      lossLimit: "Autoplay stopped: loss limit reached",
+      winLimit: "Autoplay stopped: big win!",
+      feature: "Autoplay stopped: feature won",
+      balance: "Autoplay stopped: insufficient balance",
+      error: "Autoplay stopped: spin failed",
+      player: "Autoplay stopped",
+    };
+
+  private outcomeProvider?: OutcomeProvider;
+  private jackpotProvider: JackpotProvider = new LocalJackpotProvider();
+  private wallet: Wallet = createWallet();
+  private history: RoundHistory = new RoundHistory();
+  private jackpotMeters?: JackpotMeters;
   private slotMachine?: SlotMachine;
   private spinButton?: PIXI.Graphics;
+  private spinButtonText?: PIXI.Text;
   private balanceText?: PIXI.Text;
   private winText?: PIXI.Text;
+  private betPanel?: BetPanel;
+  private speedText?: PIXI.Text;
+  private autoplayLabel?: PIXI.Sprite;
+  private autoplayText?: PIXI.Text;
+  private freeSpinsText?: PIXI.Text;
+  private respinsText?: PIXI.Text;
+  private replayText?: PIXI.Text;
   private slotMachineBackground?: PIXI.Sprite;
   private backgroundMask?: PIXI.Graphics;
 
-  private balance: number = 10000;
-  private currentBet: number = 10;
+  private spinEnabled: boolean = true;
+  private autoplay: AutoplaySession | null = null;
+  // Last balance the wallet reported
+  private balance: number = 0;
+  // Round the wallet debited last, its wins are credited against it
+  private roundId: string | null = null;
+  // Refund of a round whose outcome failed, settled before play goes on
+  private pendingRefund: Promise<void> = Promise.resolve();
+  // Outcomes of the round under way, for its history record
+  private roundSpins: SpinResult[] = [];
+  // Recorded round being replayed, null in live play
+  private replaying: RoundRecord | null = null;
+  private betLadder: BetLadder = new BetLadder();
+  private spinProfile: SpinProfileName = DEFAULT_SPIN_PROFILE;
   private activeSpineAnimations: Spine[] = [];
+  private freeSpinsRemaining: number = 0;
+  private freeSpinsTotalWin: number = 0;
+  private stickyWilds: [number, number][] = [];
+  // Base game wins held in escrow while they can still be gambled
+  private holdingWins: boolean = false;
+  // What the wallet holds for the round
+  private pendingWin: number = 0;
 
   constructor(stateManager: StateManager) {
     super(stateManager);
@@ -29,8 +128,15 @@ export class MainScene extends BaseScene {
     const assetManager = AssetManager.getInstance();
 
     // Create slot machine
-    this.slotMachine = new SlotMachine();
-    this.slotMachine.events.on("columnWin", this.handleColumnWin);
+    this.outcomeProvider = createOutcomeProvider();
+    this.slotMachine = new SlotMachine(this.outcomeProvider);
+    this.slotMachine.setCharacterPresenter(this.presentCharacterColumns);
+    this.slotMachine.events.on("outcomeError", this.handleOutcomeError);
+    this.slotMachine.events.on("cascade", this.handleCascade);
+    this.slotMachine.events.on("respin", this.handleRespin);
+    this.slotMachine.events.on("reelsStart", this.updateSpinButton);
+    this.slotMachine.events.on("reelsLanded", this.updateSpinButton);
+    window.addEventListener("keydown", this.handleKeyDown);
 
     // Center it on screen
     const slotDimensions = this.slotMachine.dimensions;
@@ -70,10 +176,22 @@ export class MainScene extends BaseScene {
         this.slotMachineBackground.y - 70
       );
       this.addChild(headerSprite);
+      this.createJackpotMeters(headerSprite);
     }
 
     // Create UI
     this.createUI(app);
+    this.loadBalance();
+
+    // Replay from ?replay=<round id> or window.slotDebug.replay(record)
+    registerDebugApi({
+      replay: (round: RoundRecord | SpinResult) => this.replay(round),
+      getRounds: () => this.history.getRecords(),
+    });
+    const replayId = new URLSearchParams(window.location.search).get("replay");
+    if (replayId) {
+      this.replayFromHistory(replayId);
+    }
 
     // Add to ticker for animation updates
     app.ticker.add((delta) => {
@@ -83,10 +201,25 @@ export class MainScene extends BaseScene {
     });
   }
 
+  /**
+   * Jackpot meters centred above the slot header
+   */
+  private async createJackpotMeters(header: PIXI.Sprite): Promise<void> {
+    const pools = await this.jackpotProvider.getPools();
+    if (pools.length === 0) return;
+
+    this.jackpotMeters = new JackpotMeters(pools);
+    this.jackpotMeters.position.set(
+      header.x + (header.width - this.jackpotMeters.width) / 2,
+      header.y - this.jackpotMeters.height - 10
+    );
+    this.addChild(this.jackpotMeters);
+  }
+
   private createUI(app: PIXI.Application): void {
     const assetManager = AssetManager.getInstance();
     // Balance display
-    this.balanceText = new PIXI.Text(`Balance: $${this.balance}`, {
+    this.balanceText = new PIXI.Text("", {
       fontFamily: "Arial",
       fontSize: 32,
       fill: 0xffffff,
@@ -97,6 +230,41 @@ export class MainScene extends BaseScene {
     this.balanceText.position.set(50, 50);
     this.addChild(this.balanceText);
 
+    // Round history, lists the recent rounds
+    const historyButton = new PIXI.Graphics();
+    historyButton.beginFill(0x23193c);
+    historyButton.lineStyle(3, 0x7da0dd);
+    historyButton.drawRoundedRect(0, 0, 160, 50, 10);
+    historyButton.endFill();
+    historyButton.position.set(50, 100);
+    historyButton.interactive = true;
+    historyButton.cursor = "pointer";
+    historyButton.on("pointerdown", () => this.showHistory());
+    this.addChild(historyButton);
+
+    const historyText = new PIXI.Text("HISTORY", {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffffff,
+      fontWeight: "bold",
+    });
+    historyText.anchor.set(0.5);
+    historyText.position.set(80, 25);
+    historyButton.addChild(historyText);
+
+    // Marks a replayed round, so it is never mistaken for live play
+    this.replayText = new PIXI.Text("REPLAY", {
+      fontFamily: "Arial",
+      fontSize: 32,
+      fill: 0xff4040,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 4,
+    });
+    this.replayText.position.set(50, 170);
+    this.replayText.visible = false;
+    this.addChild(this.replayText);
+
     // Win display
     this.winText = new PIXI.Text("", {
       fontFamily: "Arial",
@@ -124,7 +292,7 @@ export class MainScene extends BaseScene {
     this.spinButton.interactive = true;
     this.spinButton.cursor = "pointer";
 
-    this.spinButton.on("pointerdown", () => this.handleSpin());
+    this.spinButton.on("pointerdown", this.handleSpinPress);
 
     this.addChild(this.spinButton);
 
@@ -138,29 +306,444 @@ export class MainScene extends BaseScene {
     buttonText.anchor.set(0.5);
     buttonText.position.set(100, 40);
     this.spinButton.addChild(buttonText);
+    this.spinButtonText = buttonText;
+
+    // Coin value, bet level, lines and max bet
+    this.betPanel = new BetPanel(this.betLadder);
+    this.betPanel.position.set(20, app.screen.height - 230);
+    this.addChild(this.betPanel);
+
+    // Speed toggle, steps through the spin timing profiles
+    const speedButton = new PIXI.Graphics();
+    speedButton.beginFill(0x23193c);
+    speedButton.lineStyle(3, 0x7da0dd);
+    speedButton.drawRoundedRect(0, 0, 160, 80, 10);
+    speedButton.endFill();
+    speedButton.position.set(
+      (app.screen.width + 200) / 2 + 20,
+      app.screen.height - 120
+    );
+    speedButton.interactive = true;
+    speedButton.cursor = "pointer";
+    speedButton.on("pointerdown", () => this.cycleSpinProfile());
+    this.addChild(speedButton);
+
+    this.speedText = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0xffffff,
+      fontWeight: "bold",
+      align: "center",
+    });
+    this.speedText.anchor.set(0.5);
+    this.speedText.position.set(80, 40);
+    speedButton.addChild(this.speedText);
+    this.updateSpeedText();
+
+    // Autoplay button, counts the spins left while autoplay runs
+    const autoplayTexture =
+      assetManager.getTexture(ASSET_NAMES.AUTOPLAY_BUTTON) ??
+      PIXI.Texture.WHITE;
+    const autoplayButton = new PIXI.Sprite(autoplayTexture);
+    autoplayButton.width = 160;
+    autoplayButton.height = 80;
+    autoplayButton.position.set(
+      (app.screen.width + 200) / 2 + 200,
+      app.screen.height - 120
+    );
+    autoplayButton.interactive = true;
+    autoplayButton.cursor = "pointer";
+    autoplayButton.on("pointerdown", () => this.handleAutoplayPress());
+    this.addChild(autoplayButton);
+
+    // Children are laid out in the unscaled texture's space
+    const buttonScale = autoplayButton.scale;
+    this.autoplayLabel = new PIXI.Sprite(
+      assetManager.getTexture(ASSET_NAMES.AUTOPLAY_LABEL) ?? PIXI.Texture.EMPTY
+    );
+    this.autoplayLabel.anchor.set(0.5);
+    this.autoplayLabel.scale.set((0.5 * buttonScale.y) / buttonScale.x, 0.5);
+    this.autoplayLabel.position.set(80 / buttonScale.x, 40 / buttonScale.y);
+    autoplayButton.addChild(this.autoplayLabel);
+
+    this.autoplayText = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 24,
+      fill: 0x23193c,
+      fontWeight: "bold",
+      align: "center",
+    });
+    this.autoplayText.anchor.set(0.5);
+    this.autoplayText.scale.set(1 / buttonScale.x, 1 / buttonScale.y);
+    this.autoplayText.position.copyFrom(this.autoplayLabel.position);
+    this.autoplayText.visible = false;
+    autoplayButton.addChild(this.autoplayText);
+
+    // Free spins counter, only shown during the feature
+    this.freeSpinsText = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 32,
+      fill: 0xffff00,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 4,
+      align: "right",
+    });
+    this.freeSpinsText.anchor.set(1, 0);
+    this.freeSpinsText.position.set(app.screen.width - 50, 50);
+    this.freeSpinsText.visible = false;
+    this.addChild(this.freeSpinsText);
+
+    // Hold & Win respins counter
+    this.respinsText = new PIXI.Text("", this.freeSpinsText.style);
+    this.respinsText.anchor.set(1, 0);
+    this.respinsText.position.set(app.screen.width - 50, 140);
+    this.respinsText.visible = false;
+    this.addChild(this.respinsText);
   }
 
-  private async handleSpin(): Promise<void> {
-    if (!this.slotMachine || this.slotMachine.spinning) {
+  /**
+   * Set the number of paylines in play for the next spin
+   */
+  public setActiveLines(count: number): void {
+    if (!this.betLadder.setLines(count)) {
+      console.warn(`Unsupported number of lines: ${count}`);
       return;
     }
+    this.betPanel?.refresh();
+  }
 
-    this.clearSpineAnimations();
+  /**
+   * What a spin costs, from the bet ladder
+   */
+  private get currentBet(): number {
+    return this.replaying?.bet ?? this.betLadder.totalBet;
+  }
 
-    // Deduct bet
-    if (this.balance < this.currentBet) {
-      this.showMessage("Insufficient balance!");
+  private get activeLines(): number {
+    return this.replaying?.lines ?? this.betLadder.lines;
+  }
+
+  /**
+   * Set the spin timing profile, it applies from the next spin on
+   */
+  public setSpinProfile(name: SpinProfileName): void {
+    this.spinProfile = name;
+    this.slotMachine?.setSpinProfile(SPIN_PROFILES[name]);
+    this.updateSpeedText();
+  }
+
+  private cycleSpinProfile(): void {
+    const index = SPIN_PROFILE_OPTIONS.indexOf(this.spinProfile);
+    this.setSpinProfile(
+      SPIN_PROFILE_OPTIONS[(index + 1) % SPIN_PROFILE_OPTIONS.length]
+    );
+  }
+
+  private updateSpeedText(): void {
+    if (this.speedText) {
+      this.speedText.text = `SPEED\n${this.spinProfile.toUpperCase()}`;
+    }
+  }
+
+  /**
+   * Spin button and space bar: start a round, or slam the running reels to a
+   * stop. During autoplay it also stops autoplay.
+   */
+  private handleSpinPress = (): void => {
+    const inAutoplay = this.autoplay !== null;
+    this.stopAutoplay();
+
+    if (this.slotMachine?.canSlamStop) {
+      this.slotMachine.slamStop();
+      this.updateSpinButton();
       return;
     }
 
-    this.balance -= this.currentBet;
-    this.updateBalance();
+    if (this.spinEnabled && !inAutoplay) {
+      this.handleSpin();
+    }
+  };
 
-    // Disable button
-    if (this.spinButton) {
-      this.spinButton.alpha = 0.5;
-      this.spinButton.interactive = false;
+  /**
+   * Open the autoplay panel, or stop autoplay while it runs
+   */
+  private async handleAutoplayPress(): Promise<void> {
+    if (this.autoplay) {
+      this.stopAutoplay();
+      return;
+    }
+    if (!this.spinEnabled || this.slotMachine?.spinning || this.inFreeSpins) {
+      return;
+    }
+
+    this.setSpinEnabled(false);
+    const panel = new AutoplayPanel(
+      this.app.screen.width,
+      this.app.screen.height
+    );
+    this.addChild(panel);
+    const settings = await panel.waitForSettings();
+    panel.close();
+    this.setSpinEnabled(true);
+
+    if (settings) {
+      await this.runAutoplay(settings);
     }
+  }
+
+  /**
+   * Play a recorded round, or a single spin result, again as it was shown:
+   * the same outcomes, pace and animation timing. The wallet, jackpot pools
+   * and history are left untouched.
+   */
+  public async replay(input: RoundRecord | SpinResult): Promise<void> {
+    if (
+      !this.slotMachine ||
+      !this.outcomeProvider ||
+      !this.spinEnabled ||
+      this.autoplay ||
+      this.inFreeSpins
+    ) {
+      console.warn("A replay can only start between rounds");
+      return;
+    }
+
+    const round =
+      "stopPositions" in input ? await this.createReplayRound(input) : input;
+    if (!Array.isArray(round.spins) || round.spins.length === 0) {
+      console.warn(`Round ${round.roundId} has no recorded spins to replay`);
+      return;
+    }
+
+    const rng = RngService.getInstance();
+    const live = {
+      outcomeProvider: this.outcomeProvider,
+      wallet: this.wallet,
+      jackpotProvider: this.jackpotProvider,
+      seed: rng.getSeed(),
+      nextSpin: rng.getSpinIndex() + 1,
+    };
+
+    const provider = new ReplayOutcomeProvider(
+      round.spins,
+      round.gambles.map((step) => step.result)
+    );
+    this.replaying = round;
+    this.outcomeProvider = provider;
+    this.slotMachine.setOutcomeProvider(provider);
+    this.slotMachine.setSpinProfile(SPIN_PROFILES[round.spinProfile]);
+    this.wallet = new LocalWallet(null, round.balanceBefore);
+    this.jackpotProvider = new LocalJackpotProvider(
+      null,
+      Object.fromEntries(
+        round.jackpotPools.map((pool) => [pool.tier, pool.value])
+      )
+    );
+    rng.setSeed(round.rng.seed, round.rng.spin);
+    if (this.replayText) this.replayText.visible = true;
+
+    try {
+      await this.handleSpin();
+    } finally {
+      // A replay that ran out of spins leaves the feature unfinished
+      if (this.inFreeSpins) this.endFreeSpins();
+
+      this.replaying = null;
+      this.outcomeProvider = live.outcomeProvider;
+      this.slotMachine.setOutcomeProvider(live.outcomeProvider);
+      this.slotMachine.setSpinProfile(SPIN_PROFILES[this.spinProfile]);
+      this.wallet = live.wallet;
+      this.jackpotProvider = live.jackpotProvider;
+      rng.setSeed(live.seed, live.nextSpin);
+      if (this.replayText) this.replayText.visible = false;
+
+      this.jackpotMeters?.update(await this.jackpotProvider.getPools());
+      await this.loadBalance();
+    }
+  }
+
+  /**
+   * Replay a round from this browser's history
+   */
+  private async replayFromHistory(roundId: string): Promise<void> {
+    const record = this.history
+      .getRecords()
+      .find((round) => round.roundId === roundId);
+    if (!record) {
+      console.warn(`Round ${roundId} is not in the history`);
+      this.showMessage("Round not found");
+      return;
+    }
+    await this.replay(record);
+  }
+
+  /**
+   * A round around a bare spin result, played at the current bet and pace
+   */
+  private async createReplayRound(result: SpinResult): Promise<RoundRecord> {
+    const rng = RngService.getInstance();
+    return {
+      roundId: "replay",
+      timestamp: Date.now(),
+      bet: this.currentBet,
+      lines: this.activeLines,
+      reelSymbols: result.reelSymbols,
+      winningLines: result.winningLines,
+      waysWins: result.waysWins,
+      features: [],
+      jackpotsWon: result.jackpotsWon,
+      totalWin: result.totalWin,
+      balanceBefore: this.balance,
+      balanceAfter: this.balance,
+      spins: [result],
+      gambles: [],
+      jackpotPools: await this.jackpotProvider.getPools(),
+      spinProfile: this.spinProfile,
+      rng: { seed: rng.getSeed(), spin: rng.getSpinIndex() + 1 },
+    };
+  }
+
+  /**
+   * Open the round history between rounds
+   */
+  private async showHistory(): Promise<void> {
+    if (!this.spinEnabled || this.autoplay || this.inFreeSpins) {
+      return;
+    }
+
+    this.setSpinEnabled(false);
+    const panel = new HistoryPanel(
+      this.app.screen.width,
+      this.app.screen.height,
+      this.history.getRecords()
+    );
+    this.addChild(panel);
+    await panel.waitForClose();
+    panel.close();
+    this.setSpinEnabled(true);
+  }
+
+  /**
+   * Play rounds on their own until a stop condition is hit
+   */
+  private async runAutoplay(settings: AutoplaySettings): Promise<void> {
+    const session = new AutoplaySession(settings, this.balance);
+    this.autoplay = session;
+    this.updateSpinButton();
+
+    while (session.startSpin(this.balance, this.currentBet)) {
+      this.updateAutoplayText();
+      const balanceBefore = this.balance;
+      const result = await this.handleSpin();
+
+      if (!result || this.inFreeSpins) {
+        // The round did not complete, the player has to step in. A debit the
+        // wallet refused leaves the balance short of the bet.
+        session.stop(this.balance < this.currentBet ? "balance" : "error");
+      } else {
+        session.endRound({
+          balance: this.balance,
+          win: roundAmount(this.balance - balanceBefore + this.currentBet),
+          featureTriggered:
+            result.freeSpinsAwarded > 0 ||
+            result.holdAndWin !== null ||
+            result.pickBonus !== null,
+        });
+      }
+
+      if (session.active) {
+        await wait(this.AUTOPLAY_PAUSE);
+      }
+    }
+
+    this.autoplay = null;
+    this.updateAutoplayText();
+    this.updateSpinButton();
+    if (session.stopReason) {
+      this.showMessage(this.AUTOPLAY_STOP_MESSAGES[session.stopReason]);
+    }
+  }
+
+  /**
+   * Stop autoplay once the round under way is over
+   */
+  private stopAutoplay(): void {
+    this.autoplay?.stop("player");
+    this.updateAutoplayText();
+  }
+
+  private updateAutoplayText(): void {
+    const active = this.autoplay?.active ?? false;
+    if (this.autoplayLabel) this.autoplayLabel.visible = !active;
+    if (this.autoplayText) {
+      this.autoplayText.visible = active;
+      this.autoplayText.text = `STOP\n${formatSpins(this.autoplay?.spinsLeft ?? 0)}`;
+    }
+  }
+
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.code !== "Space" || event.repeat) return;
+    event.preventDefault();
+    this.handleSpinPress();
+  };
+
+  /**
+   * Play a round from the bet to the last bonus.
+   * Resolves with the base game spin, or null when none was played.
+   */
+  private async handleSpin(): Promise<SpinResult | null> {
+    if (!this.slotMachine || this.slotMachine.spinning) {
+      return null;
+    }
+
+    // A free spin failed earlier, SPIN picks the feature back up
+    if (this.inFreeSpins) {
+      await this.runFreeSpins();
+      return null;
+    }
+
+    this.clearSpineAnimations();
+    this.setSpinEnabled(false);
+
+    // Deduct bet
+    const rng = RngService.getInstance();
+    const round = {
+      roundId: this.replaying?.roundId ?? createRoundId(),
+      timestamp: Date.now(),
+      bet: this.currentBet,
+      lines: this.activeLines,
+      balanceBefore: this.balance,
+      jackpotPools: await this.jackpotProvider.getPools(),
+      spinProfile: this.replaying?.spinProfile ?? this.spinProfile,
+      rng: { seed: rng.getSeed(), spin: rng.getSpinIndex() + 1 },
+    };
+    try {
+      this.balance = await this.wallet.debit(round.roundId, round.bet);
+    } catch (error) {
+      console.error("Failed to debit bet:", error);
+      const insufficientFunds =
+        error instanceof WalletError && error.reason === "insufficient-funds";
+      if (insufficientFunds) {
+        // Our balance was out of date, show what the wallet really holds
+        this.balance = await this.wallet.getBalance().catch(() => this.balance);
+        this.updateBalance();
+      }
+      this.showMessage(
+        insufficientFunds
+          ? "Insufficient balance!"
+          : "Wallet unavailable, please try again"
+      );
+      this.setSpinEnabled(true);
+      return null;
+    }
+    this.roundId = round.roundId;
+    this.updateBalance();
+
+    // Nobody is there to gamble during autoplay, a replay gambles as recorded
+    this.holdingWins = this.replaying
+      ? this.replaying.gambles.length > 0
+      : GAME_CONFIG.gamble.enabled && !this.autoplay;
 
     // Clear previous win message
     if (this.winText) {
@@ -168,34 +751,523 @@ export class MainScene extends BaseScene {
     }
 
     // Spin!
-    const result = await this.slotMachine.spin();
+    const result = await this.slotMachine.spin({
+      bet: round.bet,
+      lines: round.lines,
+      roundId: round.roundId,
+    });
 
     // Show results
-    if (result.totalWin > 0) {
-      this.balance += result.totalWin;
-      this.showWin(result.totalWin);
+    this.roundSpins = result ? [result] : [];
+    if (result) {
+      // Only a round that happened feeds the pools, a failed one is refunded
+      this.jackpotMeters?.update(
+        await this.jackpotProvider.contribute(round.bet)
+      );
+      await this.payWin(result);
+    } else {
+      await this.pendingRefund;
+    }
+
+    this.updateBalance();
+
+    if (result?.holdAndWin) {
+      await this.playHoldAndWin(result.holdAndWin);
+    }
+
+    if (result && result.jackpotsWon.length > 0) {
+      await this.awardJackpots(result.jackpotsWon);
+    }
 
-      console.log("Winning lines:", result.winningLines);
+    if (result?.pickBonus) {
+      await this.playPickBonus(result.pickBonus);
     }
 
+    if (result && result.freeSpinsAwarded > 0) {
+      await this.collectPendingWin();
+      await this.startFreeSpins(result.freeSpinsAwarded);
+      this.recordRound(round, result, []);
+      return result;
+    }
+
+    const gambles = await this.offerGamble();
+    if (result) {
+      this.recordRound(round, result, gambles);
+    }
+    this.setSpinEnabled(true);
+    return result;
+  }
+
+  /**
+   * Add a finished round to the history, with what it paid in the end
+   */
+  private recordRound(
+    round: Pick<
+      RoundRecord,
+      | "roundId"
+      | "timestamp"
+      | "bet"
+      | "lines"
+      | "balanceBefore"
+      | "jackpotPools"
+      | "spinProfile"
+      | "rng"
+    >,
+    result: SpinResult,
+    gambles: GambleStep[]
+  ): void {
+    // A replay is a copy of a round already in the history
+    if (this.replaying) return;
+
+    const features: RoundRecord["features"] = [];
+    if (result.freeSpinsAwarded > 0) features.push("freeSpins");
+    if (result.holdAndWin) features.push("holdAndWin");
+    if (result.pickBonus) features.push("pickBonus");
+    if (gambles.length > 0) features.push("gamble");
+
+    this.history.add({
+      ...round,
+      reelSymbols: result.reelSymbols,
+      winningLines: result.winningLines,
+      waysWins: result.waysWins,
+      features,
+      jackpotsWon: result.jackpotsWon,
+      totalWin: roundAmount(this.balance - round.balanceBefore + round.bet),
+      balanceAfter: this.balance,
+      spins: this.roundSpins,
+      gambles,
+    });
+  }
+
+  /**
+   * Credit a win, or hold it in escrow while it can still be gambled.
+   * Feature and jackpot wins are paid straight away unless
+   * `gamble.featureWins` is on.
+   */
+  private async creditWin(
+    amount: number,
+    feature: boolean = false
+  ): Promise<void> {
+    if (this.holdingWins && (!feature || GAME_CONFIG.gamble.featureWins)) {
+      await this.holdWin(roundAmount(this.pendingWin + amount));
+    } else {
+      await this.settle(amount);
+    }
+  }
+
+  /**
+   * Hold the win the player can gamble in the wallet's escrow, replacing
+   * what was held
+   */
+  private async holdWin(amount: number): Promise<void> {
+    this.pendingWin = amount;
+    if (!this.roundId) return;
+
+    try {
+      this.balance = await this.wallet.hold(this.roundId, amount);
+    } catch (error) {
+      console.error(`Failed to hold the win of round ${this.roundId}:`, error);
+      this.showMessage("Wallet unavailable, your win could not be held");
+    }
+  }
+
+  /**
+   * Release the win held in escrow to the balance
+   */
+  private async collectPendingWin(): Promise<void> {
+    const win = this.pendingWin;
+    this.pendingWin = 0;
+    this.holdingWins = false;
+    if (win <= 0 || !this.roundId) return;
+
+    try {
+      this.balance = await this.wallet.release(this.roundId);
+    } catch (error) {
+      console.error(`Failed to release round ${this.roundId}:`, error);
+      this.showMessage("Wallet unavailable, your win could not be credited");
+    }
     this.updateBalance();
+  }
 
-    // Re-enable button
-    if (this.spinButton) {
-      this.spinButton.alpha = 1;
-      this.spinButton.interactive = true;
+  /**
+   * Credit a settled win to the wallet against the current round
+   */
+  private async settle(amount: number): Promise<void> {
+    if (amount <= 0 || !this.roundId) return;
+
+    try {
+      this.balance = await this.wallet.credit(this.roundId, amount);
+    } catch (error) {
+      console.error(`Failed to credit round ${this.roundId}:`, error);
+      this.showMessage("Wallet unavailable, your win could not be credited");
     }
+    this.updateBalance();
   }
 
+  /**
+   * Undo a round that could not be played, refunding its stake.
+   * Resolves with whether the wallet took it back.
+   */
+  private async rollbackRound(roundId: string): Promise<boolean> {
+    this.roundId = null;
+    try {
+      this.balance = await this.wallet.rollback(roundId);
+      return true;
+    } catch (error) {
+      console.error(`Failed to roll back round ${roundId}:`, error);
+      return false;
+    } finally {
+      this.updateBalance();
+    }
+  }
+
+  /**
+   * Show the wallet's balance once it has answered, paying out any win a
+   * reload left held in the middle of a gamble
+   */
+  private async loadBalance(): Promise<void> {
+    try {
+      this.balance = await this.wallet.releaseHeld();
+    } catch (error) {
+      console.error("Failed to load balance:", error);
+      this.showMessage("Wallet unavailable");
+    }
+    this.updateBalance();
+  }
+
+  /**
+   * Let the player gamble the held win on card draws, then settle it.
+   * A gamble that cannot be drawn leaves the win as it was.
+   * Resolves with the gambles played; a replay plays the recorded guesses.
+   */
+  private async offerGamble(): Promise<GambleStep[]> {
+    const gambles: GambleStep[] = [];
+    const { maxRounds } = GAME_CONFIG.gamble;
+    if (this.pendingWin > 0 && this.outcomeProvider) {
+      const panel = new GamblePanel(
+        this.app.screen.width,
+        this.app.screen.height
+      );
+      this.addChild(panel);
+
+      for (let round = 0; round < maxRounds && this.pendingWin > 0; round++) {
+        panel.setStake(this.pendingWin, maxRounds - round);
+        const guess = this.replaying
+          ? (this.replaying.gambles[round]?.guess ?? null)
+          : await panel.waitForChoice();
+        if (!guess) break;
+
+        let result: GambleResult;
+        try {
+          result = await this.outcomeProvider.requestGamble({
+            stake: this.pendingWin,
+            roundId: this.roundId ?? undefined,
+            guess,
+            round,
+          });
+        } catch (error) {
+          console.error("Failed to get gamble outcome:", error);
+          this.showMessage("Gamble unavailable, win collected");
+          break;
+        }
+
+        gambles.push({ guess, result });
+        await panel.showCard(result.card, result.won);
+        await wait(this.GAMBLE_PAUSE);
+        await this.holdWin(result.win);
+      }
+
+      panel.close();
+      if (this.pendingWin > 0) {
+        this.showWin(this.pendingWin);
+      } else if (this.winText) {
+        this.winText.text = "";
+      }
+    }
+
+    await this.collectPendingWin();
+    return gambles;
+  }
+
+  /**
+   * Credit what the reels paid, bonus rounds are paid once presented
+   */
+  private async payWin(result: SpinResult): Promise<void> {
+    const win = roundAmount(
+      result.totalWin -
+        (result.holdAndWin?.totalWin ?? 0) -
+        (result.pickBonus?.totalWin ?? 0)
+    );
+    if (win <= 0) return;
+
+    this.showWin(win);
+    await this.creditWin(win);
+  }
+
+  private get inFreeSpins(): boolean {
+    return this.stateManager.getFeatureState() === FEATURE_STATES.FREE_SPINS;
+  }
+
+  /**
+   * Enter the free spins feature with the intro panel, then play it
+   */
+  private async startFreeSpins(count: number): Promise<void> {
+    this.stateManager.setFeatureState(FEATURE_STATES.FREE_SPINS);
+    this.freeSpinsRemaining = count;
+    this.freeSpinsTotalWin = 0;
+    this.stickyWilds = [];
+
+    await new Dialog(
+      this.app.screen.width,
+      this.app.screen.height,
+      "FREE SPINS",
+      `You won ${count} free spins!`,
+      "START"
+    ).show(this);
+
+    await this.runFreeSpins();
+  }
+
+  /**
+   * Play the remaining free spins, then show the outro panel.
+   * Stops early if a spin fails; pressing SPIN resumes from there.
+   */
+  private async runFreeSpins(): Promise<void> {
+    if (!this.slotMachine) return;
+
+    this.setSpinEnabled(false);
+    this.updateFreeSpinsText();
+
+    const completed = await this.slotMachine.runSpinSequence(
+      () => {
+        if (this.freeSpinsRemaining <= 0) return null;
+        this.freeSpinsRemaining--;
+        this.updateFreeSpinsText();
+        this.clearSpineAnimations();
+        if (this.winText) this.winText.text = "";
+        return {
+          bet: this.currentBet,
+          lines: this.activeLines,
+          freeSpin: true,
+          stickyWilds: this.stickyWilds,
+          roundId: this.roundId ?? undefined,
+        };
+      },
+      async (result) => {
+        this.roundSpins.push(result);
+        this.stickyWilds = result.stickyWilds;
+        await this.payWin(result);
+        this.freeSpinsTotalWin = roundAmount(
+          this.freeSpinsTotalWin + result.totalWin
+        );
+        this.updateBalance();
+
+        if (result.holdAndWin) {
+          await this.playHoldAndWin(result.holdAndWin);
+        }
+
+        if (result.jackpotsWon.length > 0) {
+          this.freeSpinsTotalWin = roundAmount(
+            this.freeSpinsTotalWin +
+              (await this.awardJackpots(result.jackpotsWon))
+          );
+        }
+
+        if (result.pickBonus) {
+          await this.playPickBonus(result.pickBonus);
+        }
+
+        if (result.freeSpinsAwarded > 0) {
+          this.freeSpinsRemaining += result.freeSpinsAwarded;
+          this.showMessage(`+${result.freeSpinsAwarded} FREE SPINS!`);
+        }
+        this.updateFreeSpinsText();
+      }
+    );
+
+    if (!completed) {
+      // The failed spin was not played, it is still owed
+      this.freeSpinsRemaining++;
+      this.updateFreeSpinsText();
+      this.setSpinEnabled(true);
+      return;
+    }
+
+    await new Dialog(
+      this.app.screen.width,
+      this.app.screen.height,
+      "FREE SPINS COMPLETE",
+      `Total win: ${formatCurrency(this.freeSpinsTotalWin)}`,
+      "COLLECT"
+    ).show(this);
+
+    this.endFreeSpins();
+  }
+
+  private endFreeSpins(): void {
+    if (this.freeSpinsText) this.freeSpinsText.visible = false;
+    this.stickyWilds = [];
+    this.slotMachine?.clearStickyWilds();
+    this.stateManager.setFeatureState(FEATURE_STATES.BASE_GAME);
+    this.setSpinEnabled(true);
+  }
+
+  /**
+   * Present a Hold & Win bonus between its intro and outro panels, then pay it
+   */
+  private async playHoldAndWin(bonus: HoldAndWinResult): Promise<void> {
+    if (!this.slotMachine) return;
+
+    const previousState = this.stateManager.getFeatureState();
+    this.stateManager.setFeatureState(FEATURE_STATES.HOLD_AND_WIN);
+
+    await new Dialog(
+      this.app.screen.width,
+      this.app.screen.height,
+      "HOLD & WIN",
+      `${bonus.triggerCoins.length} coins are locked in place!\nEvery new coin resets your ${GAME_CONFIG.holdAndWin.respins} respins.`,
+      "START"
+    ).show(this);
+
+    await this.slotMachine.playHoldAndWin(bonus);
+
+    this.showWin(bonus.totalWin);
+    await this.creditWin(bonus.totalWin, true);
+
+    const jackpots = bonus.coins
+      .map((coin) => coin.jackpot)
+      .filter((jackpot) => jackpot !== null);
+    await new Dialog(
+      this.app.screen.width,
+      this.app.screen.height,
+      "HOLD & WIN COMPLETE",
+      jackpots.length > 0
+        ? `Total win: ${formatCurrency(bonus.totalWin)}\nJackpots: ${jackpots.join(", ")}`
+        : `Total win: ${formatCurrency(bonus.totalWin)}`,
+      "COLLECT"
+    ).show(this);
+
+    if (this.respinsText) this.respinsText.visible = false;
+    this.slotMachine.exitHoldAndWin();
+    this.stateManager.setFeatureState(previousState);
+  }
+
+  /**
+   * Pay the progressive pools a spin won, announcing each one.
+   * Resolves with the total paid.
+   */
+  private async awardJackpots(tiers: JackpotTier[]): Promise<number> {
+    let total = 0;
+    for (const tier of tiers) {
+      const won = await this.jackpotProvider.award(tier);
+      total += won;
+      this.showWin(won);
+      await this.creditWin(won, true);
+      this.jackpotMeters?.update(await this.jackpotProvider.getPools());
+
+      await new Dialog(
+        this.app.screen.width,
+        this.app.screen.height,
+        `${tier} JACKPOT`,
+        `You won ${formatCurrency(won)}!`,
+        "COLLECT"
+      ).show(this);
+    }
+    return roundAmount(total);
+  }
+
+  /**
+   * Hand over to the pick bonus scene, then credit what it returns
+   */
+  private async playPickBonus(bonus: PickBonusResult): Promise<void> {
+    const previousState = this.stateManager.getFeatureState();
+    this.stateManager.setFeatureState(FEATURE_STATES.PICK_BONUS);
+
+    await new Dialog(
+      this.app.screen.width,
+      this.app.screen.height,
+      "PICK BONUS",
+      "Pick items to reveal cash prizes and multipliers.\nThe bonus ends when you find COLLECT.",
+      "START"
+    ).show(this);
+
+    const scene = new PickBonusScene(this.stateManager, bonus);
+    this.app.stage.addChild(scene);
+    scene.createScene(this.app);
+    const win = await scene.play();
+    this.app.stage.removeChild(scene);
+    scene.destroy({ children: true });
+
+    this.showWin(win);
+    await this.creditWin(win, true);
+
+    await new Dialog(
+      this.app.screen.width,
+      this.app.screen.height,
+      "PICK BONUS COMPLETE",
+      bonus.multiplier > 1
+        ? `Total win: ${formatCurrency(win)} (x${bonus.multiplier})`
+        : `Total win: ${formatCurrency(win)}`,
+      "COLLECT"
+    ).show(this);
+
+    this.stateManager.setFeatureState(previousState);
+  }
+
+  private handleRespin = (event: RespinEvent) => {
+    if (this.respinsText) {
+      this.respinsText.text = `RESPINS: ${event.respinsLeft}\nCOINS: ${event.coins}`;
+      this.respinsText.visible = true;
+    }
+  };
+
+  private updateFreeSpinsText(): void {
+    if (this.freeSpinsText) {
+      this.freeSpinsText.text = `FREE SPINS: ${this.freeSpinsRemaining}\nWIN: ${formatCurrency(this.freeSpinsTotalWin)}`;
+      this.freeSpinsText.visible = true;
+    }
+  }
+
+  private setSpinEnabled(enabled: boolean): void {
+    this.spinEnabled = enabled;
+    this.updateSpinButton();
+  }
+
+  /**
+   * The spin button turns into STOP while the reels can be slammed. The bet
+   * is locked from the spin until the round and any feature it won are over.
+   */
+  private updateSpinButton = (): void => {
+    const canStop = this.slotMachine?.canSlamStop ?? false;
+    const active = canStop || this.spinEnabled;
+
+    this.betPanel?.setLocked(
+      !this.spinEnabled ||
+        this.autoplay !== null ||
+        this.stateManager.getFeatureState() !== FEATURE_STATES.BASE_GAME
+    );
+
+    if (this.spinButton) {
+      this.spinButton.alpha = active ? 1 : 0.5;
+      this.spinButton.interactive = active;
+    }
+    if (this.spinButtonText) {
+      this.spinButtonText.text = canStop ? "STOP" : "SPIN";
+    }
+  };
+
   private updateBalance(): void {
     if (this.balanceText) {
-      this.balanceText.text = `Balance: $${this.balance}`;
+      this.balanceText.text = `Balance: ${formatCurrency(this.balance)}`;
     }
   }
 
-  private showWin(amount: number): void {
+  private showWin(amount: number, cascadeMultiplier: number = 1): void {
     if (this.winText) {
-      this.winText.text = `WIN: $${amount}!`;
+      this.winText.text =
+        cascadeMultiplier > 1
+          ? `WIN: ${formatCurrency(amount)}! (x${cascadeMultiplier})`
+          : `WIN: ${formatCurrency(amount)}!`;
 
       // Animate win text
       this.winText.scale.set(0);
@@ -203,8 +1275,9 @@ export class MainScene extends BaseScene {
       // Simple scale animation
       const animateWin = () => {
         if (this.winText && this.winText.scale.x < 1) {
-          this.winText.scale.x += 0.05;
-          this.winText.scale.y += 0.05;
+          const step =
+            0.05 * (this.slotMachine?.spinProfile.presentationSpeed ?? 1);
+          this.winText.scale.set(Math.min(this.winText.scale.x + step, 1));
           requestAnimationFrame(animateWin);
         }
       };
@@ -224,6 +1297,48 @@ export class MainScene extends BaseScene {
     }
   }
 
+  private handleCascade = (event: CascadeEvent) => {
+    if (event.win > 0) this.showWin(event.win, event.step.multiplier);
+  };
+
+  private handleOutcomeError = (event: OutcomeErrorEvent) => {
+    if (this.replaying) {
+      this.showMessage("Replay over: no more recorded spins");
+      return;
+    }
+
+    this.pendingRefund = this.reportOutcomeError(event);
+  };
+
+  /**
+   * Refund the stake of the round that never happened, then tell the
+   * player whether it came back
+   */
+  private async reportOutcomeError(event: OutcomeErrorEvent): Promise<void> {
+    const refunded =
+      !event.freeSpin && this.roundId !== null
+        ? await this.rollbackRound(this.roundId)
+        : false;
+
+    const message =
+      event.reason === "timeout"
+        ? "The game server did not respond in time."
+        : "The game server could not complete your spin.";
+    const followUp = event.freeSpin
+      ? "Press SPIN to continue your free spins."
+      : refunded
+        ? `Your bet of ${formatCurrency(event.bet)} has been refunded.`
+        : `Your bet of ${formatCurrency(event.bet)} could not be refunded ` +
+          "yet, please contact support.";
+    const dialog = new Dialog(
+      this.app.screen.width,
+      this.app.screen.height,
+      "Connection problem",
+      `${message}\n${followUp}`
+    );
+    dialog.show(this);
+  }
+
   private createCharacter(
     name: "Man" | "Woman",
     x: number,
@@ -235,64 +1350,71 @@ export class MainScene extends BaseScene {
       {
         scale: 0.25,
         animation: "animation",
+        timeScale: this.slotMachine?.spinProfile.presentationSpeed,
         x,
         y,
       }
     );
   }
 
-  private handleColumnWin = async (event: {
-    reelIndex: number;
-    character: "Man" | "Woman";
-  }) => {
-    console.log("handleColumnWin called", event);
-    if (!this.slotMachine) {
-      console.log("No slotMachine");
-      return;
-    }
+  /**
+   * Replace every character column with its Spine character and wait for one
+   * full play of the animation, which keeps looping until the next spin
+   */
+  private presentCharacterColumns = async (
+    columns: CharacterColumn[]
+  ): Promise<void> => {
+    if (!this.slotMachine) return;
 
-    const reel = this.slotMachine.getReel(event.reelIndex);
-    if (!reel) {
-      console.log("No reel for index", event.reelIndex);
-      return;
-    }
+    // Mask the background around all the characters at once
+    this.createReelMask(columns.map((column) => column.reel));
 
-    const reelPosition = this.slotMachine.getReelPosition(event.reelIndex);
-    if (!reelPosition) {
-      console.log("No reelPosition for index", event.reelIndex);
-      return;
-    }
+    await Promise.all(
+      columns.map(async ({ reel: reelIndex, character }) => {
+        const reel = this.slotMachine?.getReel(reelIndex);
+        const reelPosition = this.slotMachine?.getReelPosition(reelIndex);
+        if (!reel || !reelPosition) return;
 
-    console.log("Creating mask for reel", event.reelIndex);
-    // Create a mask to hide only the specific reel area
-    this.createReelMask(event.reelIndex);
+        try {
+          const spine = await this.createCharacter(
+            character === "MAN" ? "Man" : "Woman",
+            reelPosition.x + reel.width / 2,
+            reelPosition.y + reel.height / 2 + 100
+          );
 
-    console.log("Creating character", event.character);
-    try {
-      const character = await this.createCharacter(
-        event.character,
-        reelPosition.x + reel.width / 2,
-        reelPosition.y + reel.height / 2 + 100
-      );
-
-      console.log("Character created", character);
-      reel.visible = false;
-      this.activeSpineAnimations.push(character);
-      this.addChild(character);
-      console.log("Added spine animation for", event.character);
-    } catch (error) {
-      console.error("Error creating character:", error);
-    }
+          reel.visible = false;
+          this.activeSpineAnimations.push(spine);
+          this.addChild(spine);
+          await this.waitForAnimation(spine);
+        } catch (error) {
+          console.error("Error creating character:", error);
+        }
+      })
+    );
   };
 
-  private createReelMask(reelIndex: number): void {
-    if (!this.slotMachine || !this.slotMachineBackground) return;
+  /**
+   * Resolve when the animation on track 0 completes its first play
+   */
+  private waitForAnimation(spine: Spine): Promise<void> {
+    return new Promise((resolve) => {
+      if (!spine.state.tracks[0]) {
+        resolve();
+        return;
+      }
 
-    const reel = this.slotMachine.getReel(reelIndex);
-    if (!reel) return;
+      const listener = {
+        complete: () => {
+          spine.state.removeListener(listener);
+          resolve();
+        },
+      };
+      spine.state.addListener(listener);
+    });
+  }
 
-    const reelPosition = this.slotMachine.getReelPosition(reelIndex);
-    if (!reelPosition) return;
+  private createReelMask(reelIndices: number[]): void {
+    if (!this.slotMachine || !this.slotMachineBackground) return;
 
     // Remove existing mask if any
     if (this.backgroundMask) {
@@ -300,7 +1422,7 @@ export class MainScene extends BaseScene {
       this.backgroundMask.destroy();
     }
 
-    // Create a new mask that covers all reels EXCEPT the one with spine animation
+    // Create a new mask that covers all reels EXCEPT the ones with spine animations
     this.backgroundMask = new PIXI.Graphics();
 
     // Start by filling the entire background area (this will be visible)
@@ -313,15 +1435,21 @@ export class MainScene extends BaseScene {
     );
     this.backgroundMask.endFill();
 
-    // Cut out the area where the spine animation will be (the specific reel)
-    this.backgroundMask.beginHole();
-    this.backgroundMask.drawRect(
-      reelPosition.x - 5, // Small padding to ensure full coverage
-      reelPosition.y - 5,
-      reel.width + 10,
-      reel.height + 10
-    );
-    this.backgroundMask.endHole();
+    // Cut out the area where each spine animation will be
+    for (const reelIndex of reelIndices) {
+      const reel = this.slotMachine.getReel(reelIndex);
+      const reelPosition = this.slotMachine.getReelPosition(reelIndex);
+      if (!reel || !reelPosition) continue;
+
+      this.backgroundMask.beginHole();
+      this.backgroundMask.drawRect(
+        reelPosition.x - 5, // Small padding to ensure full coverage
+        reelPosition.y - 5,
+        reel.width + 10,
+        reel.height + 10
+      );
+      this.backgroundMask.endHole();
+    }
 
     // Apply the mask to the background
     this.slotMachineBackground.mask = this.backgroundMask;
@@ -354,7 +1482,7 @@ export class MainScene extends BaseScene {
 
     // Make all reels visible again
     if (this.slotMachine) {
-      for (let i = 0; i < 5; i++) {
+      for (let i = 0; i < this.slotMachine.reelCount; i++) {
         const reel = this.slotMachine.getReel(i);
         if (reel) {
           reel.visible = true;
@@ -366,10 +1494,17 @@ export class MainScene extends BaseScene {
   // Clean up method to ensure proper destruction
   public destroy(): void {
     this.clearSpineAnimations();
+    this.autoplay?.stop("player");
 
     if (this.slotMachine) {
-      this.slotMachine.events.off("columnWin", this.handleColumnWin);
+      this.slotMachine.setCharacterPresenter(null);
+      this.slotMachine.events.off("outcomeError", this.handleOutcomeError);
+      this.slotMachine.events.off("cascade", this.handleCascade);
+      this.slotMachine.events.off("respin", this.handleRespin);
+      this.slotMachine.events.off("reelsStart", this.updateSpinButton);
+      this.slotMachine.events.off("reelsLanded", this.updateSpinButton);
     }
+    window.removeEventListener("keydown", this.handleKeyDown);
 
     super.destroy();
   }
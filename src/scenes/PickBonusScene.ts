@@ -0,0 +1,209 @@
+import * as PIXI from "pixi.js";
+import { gsap } from "gsap";
+import { BaseScene } from "./BaseScene";
+import { StateManager } from "../core/StateManager";
+import { PickBonusResult, PickPrize } from "../core/types/type";
+import { AssetManager } from "../managers/AssetManager";
+import { ASSET_NAMES, SYMBOLS_CONFIG } from "../config/assets.config";
+import { layout } from "../config/layout.config";
+import { roundAmount } from "../math/WinEvaluator";
+import { wait } from "../utils/wait";
+import { formatCurrency } from "../utils/currency";
+
+/**
+ * Pick-and-click bonus shown over the base game.
+ * The prizes are decided by the spin result: whichever item is clicked
+ * reveals the next one, until a collect ends the bonus.
+ */
+export class PickBonusScene extends BaseScene {
+  private readonly COLUMNS = 4;
+  private readonly ITEM_GAP = 30;
+  // Symbol art the hidden items are drawn with, in turn
+  private readonly ITEM_ART: (keyof typeof SYMBOLS_CONFIG)[] = [
+    "BARRELS",
+    "DYNAMITE_CRATE",
+    "BAG_OF_GOLD",
+  ];
+  // Seconds the whole board stays revealed before handing back
+  private readonly END_PAUSE = 1.5;
+
+  private bonus: PickBonusResult;
+  private items: PIXI.Container[] = [];
+  private revealed = new Set<PIXI.Container>();
+  private totalText?: PIXI.Text;
+  private picked = 0;
+  private cash = 0;
+  private multiplier = 1;
+  private resolveDone?: (win: number) => void;
+
+  constructor(stateManager: StateManager, bonus: PickBonusResult) {
+    super(stateManager);
+    this.bonus = bonus;
+  }
+
+  public createScene(app: PIXI.Application): void {
+    super.createScene(app);
+
+    // Covers the reels and swallows clicks meant for them
+    const backdrop = new PIXI.Graphics();
+    backdrop.beginFill(0x000000, 0.75);
+    backdrop.drawRect(0, 0, app.screen.width, app.screen.height);
+    backdrop.endFill();
+    backdrop.interactive = true;
+    this.addChild(backdrop);
+
+    const title = new PIXI.Text("PICK BONUS", {
+      fontFamily: "Arial",
+      fontSize: 56,
+      fill: 0xffff00,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 5,
+    });
+    title.anchor.set(0.5, 0);
+    title.position.set(app.screen.width / 2, 40);
+    this.addChild(title);
+
+    this.totalText = new PIXI.Text("", {
+      fontFamily: "Arial",
+      fontSize: 40,
+      fill: 0xffffff,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 4,
+    });
+    this.totalText.anchor.set(0.5, 0);
+    this.totalText.position.set(app.screen.width / 2, 110);
+    this.addChild(this.totalText);
+    this.updateTotalText();
+
+    this.createItems(app);
+  }
+
+  /**
+   * Resolves with the bonus win once the player has picked through to the end
+   */
+  public play(): Promise<number> {
+    return new Promise((resolve) => {
+      this.resolveDone = resolve;
+    });
+  }
+
+  private createItems(app: PIXI.Application): void {
+    const symbolsSpritesheet = AssetManager.getInstance().getSpritesheet(
+      ASSET_NAMES.SYMBOLS
+    );
+    const count = this.bonus.picks.length + this.bonus.unpicked.length;
+    const size = layout.SYMBOL_SIZE;
+    const pitch = size + this.ITEM_GAP;
+    const rows = Math.ceil(count / this.COLUMNS);
+    const left = (app.screen.width - this.COLUMNS * pitch + this.ITEM_GAP) / 2;
+    const top = Math.max(180, (app.screen.height - rows * pitch) / 2);
+
+    for (let index = 0; index < count; index++) {
+      const art = this.ITEM_ART[index % this.ITEM_ART.length];
+      const texture =
+        symbolsSpritesheet?.textures[SYMBOLS_CONFIG[art].filename] ??
+        PIXI.Texture.EMPTY;
+
+      const item = new PIXI.Container();
+      const sprite = new PIXI.Sprite(texture);
+      sprite.anchor.set(0.5);
+      sprite.scale.set(
+        Math.min(size / texture.width, size / texture.height) || 1
+      );
+      item.addChild(sprite);
+      item.position.set(
+        left + (index % this.COLUMNS) * pitch + size / 2,
+        top + Math.floor(index / this.COLUMNS) * pitch + size / 2
+      );
+      item.interactive = true;
+      item.cursor = "pointer";
+      item.once("pointerdown", () => this.pick(item));
+
+      this.items.push(item);
+      this.addChild(item);
+    }
+  }
+
+  /**
+   * Reveal the next prize under the clicked item
+   */
+  private async pick(item: PIXI.Container): Promise<void> {
+    const prize = this.bonus.picks[this.picked++];
+    if (!prize) return;
+
+    item.interactive = false;
+    if (prize.type === "cash") this.cash += prize.value;
+    if (prize.type === "multiplier") this.multiplier *= prize.value;
+
+    const finished = this.picked === this.bonus.picks.length;
+    // No clicks on the board while the last prize turns over
+    if (finished) this.items.forEach((other) => (other.interactive = false));
+
+    await this.reveal(item, prize);
+    this.updateTotalText();
+    if (finished) await this.finish();
+  }
+
+  /**
+   * Show what was left on the board, then hand the win back
+   */
+  private async finish(): Promise<void> {
+    const hidden = this.items.filter((item) => !this.revealed.has(item));
+    await Promise.all(
+      hidden.map((item, i) => {
+        item.alpha = 0.5;
+        return this.reveal(item, this.bonus.unpicked[i]);
+      })
+    );
+
+    await wait(this.END_PAUSE);
+    this.resolveDone?.(this.bonus.totalWin);
+    this.resolveDone = undefined;
+  }
+
+  /**
+   * Flip the item over to its prize label
+   */
+  private async reveal(item: PIXI.Container, prize?: PickPrize): Promise<void> {
+    if (!prize) return;
+
+    this.revealed.add(item);
+    await gsap.to(item.scale, { x: 0, duration: 0.15 });
+
+    const label = new PIXI.Text(this.getPrizeLabel(prize), {
+      fontFamily: "Arial",
+      fontSize: 36,
+      fill: prize.type === "collect" ? 0xff6666 : 0xffff00,
+      fontWeight: "bold",
+      stroke: 0x000000,
+      strokeThickness: 5,
+    });
+    label.anchor.set(0.5);
+    item.getChildAt(0).alpha = 0.35;
+    item.addChild(label);
+
+    await gsap.to(item.scale, { x: 1, duration: 0.15 });
+  }
+
+  private getPrizeLabel(prize: PickPrize): string {
+    switch (prize.type) {
+      case "cash":
+        return formatCurrency(prize.value);
+      case "multiplier":
+        return `x${prize.value}`;
+      case "collect":
+        return "COLLECT";
+    }
+  }
+
+  private updateTotalText(): void {
+    if (!this.totalText) return;
+    const total = roundAmount(this.cash);
+    this.totalText.text =
+      this.multiplier > 1
+        ? `WIN: ${formatCurrency(total)} x${this.multiplier}`
+        : `WIN: ${formatCurrency(total)}`;
+  }
+}
@@ -0,0 +1,88 @@
+import { mixSeed, Rng, SeededRng } from "../math/Rng";
+
+const OUTCOME_CHANNEL = 1;
+const ANIMATION_CHANNEL = 2;
+
+/**
+ * RngService - Single source of randomness for the game
+ *
+ * Every spin gets its own streams derived from (seed, spin number), so
+ * "seed 12345, spin 37" reproduces that spin's grid and animation timing
+ * without replaying the 36 spins before it.
+ * Outcome and animation draws use separate streams so that changing how a
+ * spin is animated never changes what it lands on.
+ */
+export class RngService {
+  private static instance: RngService;
+
+  private seed: number;
+  private spinIndex = 0;
+  private outcomeStream: SeededRng;
+  private animationStream: SeededRng;
+
+  // Stable handles that always draw from the current spin's streams
+  public readonly outcome: Rng = { random: () => this.outcomeStream.random() };
+  public readonly animation: Rng = {
+    random: () => this.animationStream.random(),
+  };
+
+  private constructor() {
+    this.seed = Math.floor(Math.random() * 4294967296);
+    this.outcomeStream = this.createStream(OUTCOME_CHANNEL);
+    this.animationStream = this.createStream(ANIMATION_CHANNEL);
+  }
+
+  /**
+   * Get singleton instance
+   */
+  public static getInstance(): RngService {
+    if (!RngService.instance) {
+      RngService.instance = new RngService();
+    }
+    return RngService.instance;
+  }
+
+  /**
+   * Seed the service. `nextSpin` is the number the next spin will get.
+   */
+  public setSeed(seed: number, nextSpin: number = 1): void {
+    this.seed = seed >>> 0;
+    this.spinIndex = Math.max(nextSpin - 1, 0);
+    this.outcomeStream = this.createStream(OUTCOME_CHANNEL);
+    this.animationStream = this.createStream(ANIMATION_CHANNEL);
+  }
+
+  /**
+   * Apply `?seed=12345&spin=37` from a URL query string
+   */
+  public configureFromQuery(search: string): void {
+    const params = new URLSearchParams(search);
+    const seed = params.get("seed");
+    if (seed === null || !/^\d+$/.test(seed)) return;
+
+    const spin = Number(params.get("spin") ?? 1);
+    this.setSeed(Number(seed), Number.isInteger(spin) ? spin : 1);
+  }
+
+  /**
+   * Move on to the next spin's streams, returns the new spin number
+   */
+  public beginSpin(): number {
+    this.spinIndex++;
+    this.outcomeStream = this.createStream(OUTCOME_CHANNEL);
+    this.animationStream = this.createStream(ANIMATION_CHANNEL);
+    return this.spinIndex;
+  }
+
+  public getSeed(): number {
+    return this.seed;
+  }
+
+  public getSpinIndex(): number {
+    return this.spinIndex;
+  }
+
+  private createStream(channel: number): SeededRng {
+    return new SeededRng(mixSeed(this.seed, this.spinIndex, channel));
+  }
+}
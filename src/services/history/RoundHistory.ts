@@ -0,0 +1,109 @@
+import { GAME_CONFIG } from "../../config/game.config";
+import { SpinProfileName } from "../../config/spinProfiles.config";
+import {
+  GambleRequest,
+  GambleResult,
+  JackpotPool,
+  JackpotTier,
+  SpinResult,
+  WaysWin,
+  WinLine,
+} from "../../core/types/type";
+import { getLocalStorage, isQuotaExceeded } from "../../utils/storage";
+
+const STORAGE_KEY = "westcowboy.roundHistory";
+
+export type RoundFeature = "freeSpins" | "holdAndWin" | "pickBonus" | "gamble";
+
+export interface GambleStep {
+  guess: GambleRequest["guess"];
+  result: GambleResult;
+}
+
+/**
+ * Everything needed to answer "what happened on that spin?", and to replay it
+ */
+export interface RoundRecord {
+  roundId: string;
+  // Milliseconds since the epoch, when the round was spun
+  timestamp: number;
+  bet: number;
+  lines: number;
+  // Grid the base spin landed on
+  reelSymbols: string[][];
+  winningLines: WinLine[];
+  waysWins: WaysWin[];
+  features: RoundFeature[];
+  jackpotsWon: JackpotTier[];
+  // Everything the round paid, features and gamble included
+  totalWin: number;
+  balanceBefore: number;
+  balanceAfter: number;
+  // The base spin, then every free spin it led to
+  spins: SpinResult[];
+  gambles: GambleStep[];
+  // Pools before the round's contribution, so jackpots pay the same again
+  jackpotPools: JackpotPool[];
+  spinProfile: SpinProfileName;
+  // Seed and spin number of the base spin, for the animation stream
+  rng: { seed: number; spin: number };
+}
+
+/**
+ * The most recent rounds, newest first, kept in this browser's localStorage.
+ * Without storage they are still kept for the session.
+ */
+export class RoundHistory {
+  private storage: Storage | null;
+  private maxRounds: number;
+  private records: RoundRecord[];
+
+  constructor(
+    storage: Storage | null = getLocalStorage(),
+    maxRounds: number = GAME_CONFIG.history.maxRounds
+  ) {
+    this.storage = storage;
+    this.maxRounds = maxRounds;
+    this.records = this.load();
+  }
+
+  public getRecords(): readonly RoundRecord[] {
+    return this.records;
+  }
+
+  /**
+   * Record a finished round, dropping the oldest past the cap
+   */
+  public add(record: RoundRecord): void {
+    this.records = [record, ...this.records].slice(0, this.maxRounds);
+    this.save();
+  }
+
+  private load(): RoundRecord[] {
+    try {
+      const stored = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? "[]");
+      return Array.isArray(stored) ? stored.slice(0, this.maxRounds) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Rounds with long features are large, so when storage is full the oldest
+   * rounds are dropped until the rest fit
+   */
+  private save(): void {
+    for (;;) {
+      try {
+        this.storage?.setItem(STORAGE_KEY, JSON.stringify(this.records));
+        return;
+      } catch (error) {
+        if (!isQuotaExceeded(error) || this.records.length <= 1) {
+          console.warn("Could not save round history:", error);
+          return;
+        }
+        this.records = this.records.slice(0, -1);
+      }
+    }
+  }
+}
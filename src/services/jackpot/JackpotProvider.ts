@@ -0,0 +1,14 @@
+import { JackpotPool, JackpotTier } from "../../core/types/type";
+
+/**
+ * Source of the progressive jackpot pools.
+ * Pools are kept locally for now; a shared server pool can take over by
+ * implementing the same interface.
+ */
+export interface JackpotProvider {
+  getPools(): Promise<JackpotPool[]>;
+  // Add a paid bet's contribution, resolves with the updated pools
+  contribute(bet: number): Promise<JackpotPool[]>;
+  // Pay a pool out and reset it to its seed, resolves with the amount won
+  award(tier: JackpotTier): Promise<number>;
+}
@@ -0,0 +1,62 @@
+import { JackpotPool, JackpotTier } from "../../core/types/type";
+import { JackpotPools } from "../../math/JackpotPools";
+import { getLocalStorage } from "../../utils/storage";
+import { JackpotProvider } from "./JackpotProvider";
+
+const STORAGE_KEY = "westcowboy.jackpotPools";
+
+/**
+ * Pools kept in this browser's localStorage, so they carry over reloads.
+ * Without storage (private mode, quota) they still work for the session.
+ */
+export class LocalJackpotProvider implements JackpotProvider {
+  private storage: Storage | null;
+  private pools: JackpotPools;
+
+  /**
+   * `values` starts the pools there instead of at their stored values
+   */
+  constructor(
+    storage: Storage | null = getLocalStorage(),
+    values?: Partial<Record<JackpotTier, number>>
+  ) {
+    this.storage = storage;
+    this.pools = new JackpotPools(undefined, values ?? this.load());
+  }
+
+  public async getPools(): Promise<JackpotPool[]> {
+    return this.pools.getPools();
+  }
+
+  public async contribute(bet: number): Promise<JackpotPool[]> {
+    this.pools.contribute(bet);
+    this.save();
+    return this.pools.getPools();
+  }
+
+  public async award(tier: JackpotTier): Promise<number> {
+    const won = this.pools.award(tier);
+    this.save();
+    return won;
+  }
+
+  private load(): Partial<Record<JackpotTier, number>> {
+    try {
+      const stored = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? "{}");
+      return typeof stored === "object" && stored !== null ? stored : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private save(): void {
+    try {
+      this.storage?.setItem(
+        STORAGE_KEY,
+        JSON.stringify(this.pools.getValues())
+      );
+    } catch (error) {
+      console.warn("Could not save jackpot pools:", error);
+    }
+  }
+}
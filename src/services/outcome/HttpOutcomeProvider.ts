@@ -0,0 +1,156 @@
+import {
+  GambleRequest,
+  GambleResult,
+  SpinRequest,
+  SpinResult,
+} from "../../core/types/type";
+import { CARD_SUITS } from "../../math/GambleEngine";
+import { getStripWindow } from "../../math/reelStrips";
+import { GRID } from "../../math/grid";
+import { OutcomeError, OutcomeProvider } from "./OutcomeProvider";
+
+export interface HttpOutcomeProviderOptions {
+  url: string;
+  timeoutMs: number;
+}
+
+/**
+ * Requests outcomes from a game server over HTTP/JSON.
+ * The request/response format is documented in docs/outcome-api.md.
+ * Gambles go to `gamble` next to the spin URL.
+ */
+export class HttpOutcomeProvider implements OutcomeProvider {
+  private options: HttpOutcomeProviderOptions;
+
+  constructor(options: HttpOutcomeProviderOptions) {
+    this.options = options;
+  }
+
+  public async requestSpin(request: SpinRequest): Promise<SpinResult> {
+    const body = await this.post(this.options.url, request);
+    if (!this.isSpinResult(body)) {
+      throw new OutcomeError(
+        "invalid-response",
+        "Response does not match the spin result format"
+      );
+    }
+    return body;
+  }
+
+  public async requestGamble(request: GambleRequest): Promise<GambleResult> {
+    const body = await this.post(
+      new URL("gamble", this.options.url).toString(),
+      request
+    );
+    if (!this.isGambleResult(body)) {
+      throw new OutcomeError(
+        "invalid-response",
+        "Response does not match the gamble result format"
+      );
+    }
+    return body;
+  }
+
+  /**
+   * POST a JSON request and parse the JSON answer
+   */
+  private async post(url: string, request: unknown): Promise<unknown> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      this.options.timeoutMs
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new OutcomeError(
+          "timeout",
+          `No response from ${url} within ${this.options.timeoutMs}ms`
+        );
+      }
+      throw new OutcomeError("network", `Request failed: ${String(error)}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (!response.ok) {
+      throw new OutcomeError(
+        "network",
+        `Server responded with ${response.status} ${response.statusText}`
+      );
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new OutcomeError("invalid-response", "Response is not valid JSON");
+    }
+  }
+
+  private isGambleResult(body: unknown): body is GambleResult {
+    if (typeof body !== "object" || body === null) return false;
+
+    const result = body as Partial<GambleResult>;
+    return (
+      CARD_SUITS.includes(result.card as GambleResult["card"]) &&
+      typeof result.won === "boolean" &&
+      typeof result.win === "number"
+    );
+  }
+
+  /**
+   * Check the shape of a server response before trusting it.
+   * The grid must be the strip window at each stop, or the reels would
+   * land on something other than what was paid.
+   */
+  private isSpinResult(body: unknown): body is SpinResult {
+    if (typeof body !== "object" || body === null) return false;
+
+    const result = body as Partial<SpinResult>;
+    if (
+      !Array.isArray(result.stopPositions) ||
+      result.stopPositions.length !== GRID.strips.length ||
+      !result.stopPositions.every((stop) => Number.isInteger(stop)) ||
+      !Array.isArray(result.reelSymbols) ||
+      result.reelSymbols.length !== GRID.strips.length
+    ) {
+      return false;
+    }
+
+    const stopPositions = result.stopPositions;
+    const gridMatchesStrips = result.reelSymbols.every(
+      (reel, i) =>
+        Array.isArray(reel) &&
+        reel.length === GRID.rows[i] &&
+        getStripWindow(GRID.strips[i], stopPositions[i], reel.length).every(
+          (symbol, row) => reel[row] === symbol
+        )
+    );
+
+    return (
+      gridMatchesStrips &&
+      Array.isArray(result.evaluatedSymbols) &&
+      result.evaluatedSymbols.length === GRID.strips.length &&
+      Array.isArray(result.expandedReels) &&
+      Array.isArray(result.characterColumns) &&
+      Array.isArray(result.stickyWilds) &&
+      Array.isArray(result.winningLines) &&
+      Array.isArray(result.waysWins) &&
+      Array.isArray(result.cascades) &&
+      (result.holdAndWin === null || typeof result.holdAndWin === "object") &&
+      (result.pickBonus === null || typeof result.pickBonus === "object") &&
+      Array.isArray(result.jackpotsWon) &&
+      (result.scatterWin === null || typeof result.scatterWin === "object") &&
+      Number.isInteger(result.freeSpinsAwarded) &&
+      typeof result.totalWin === "number"
+    );
+  }
+}
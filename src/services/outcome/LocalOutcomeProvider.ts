@@ -0,0 +1,43 @@
+import {
+  GambleRequest,
+  GambleResult,
+  SpinRequest,
+  SpinResult,
+} from "../../core/types/type";
+import { GambleEngine } from "../../math/GambleEngine";
+import { Rng } from "../../math/Rng";
+import { SpinEngine } from "../../math/SpinEngine";
+import { RngService } from "../RngService";
+import { OutcomeProvider } from "./OutcomeProvider";
+
+/**
+ * Generates outcomes in the client by picking a random stop on each reel strip.
+ * Used for offline play and by the mock server.
+ */
+export class LocalOutcomeProvider implements OutcomeProvider {
+  private spinEngine = new SpinEngine();
+  private gambleEngine = new GambleEngine();
+  private rng: Rng;
+
+  constructor(rng: Rng = RngService.getInstance().outcome) {
+    this.rng = rng;
+  }
+
+  public async requestSpin(request: SpinRequest): Promise<SpinResult> {
+    return this.generateSpinOutcome(request);
+  }
+
+  /**
+   * Draw the gamble card from the stream of the spin that won the stake
+   */
+  public async requestGamble(request: GambleRequest): Promise<GambleResult> {
+    return this.gambleEngine.play(request, this.rng);
+  }
+
+  /**
+   * Generate a random spin outcome and evaluate its wins
+   */
+  public generateSpinOutcome(request: SpinRequest): SpinResult {
+    return this.spinEngine.spin(request, this.rng);
+  }
+}
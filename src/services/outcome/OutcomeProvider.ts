@@ -0,0 +1,31 @@
+import {
+  GambleRequest,
+  GambleResult,
+  SpinRequest,
+  SpinResult,
+} from "../../core/types/type";
+
+/**
+ * Source of spin and gamble outcomes.
+ * The client never decides a result on its own - it asks a provider,
+ * which may be the local RNG or a remote game server.
+ */
+export interface OutcomeProvider {
+  requestSpin(request: SpinRequest): Promise<SpinResult>;
+  requestGamble(request: GambleRequest): Promise<GambleResult>;
+}
+
+export type OutcomeErrorReason = "timeout" | "network" | "invalid-response";
+
+/**
+ * Raised by providers when an outcome could not be obtained
+ */
+export class OutcomeError extends Error {
+  public readonly reason: OutcomeErrorReason;
+
+  constructor(reason: OutcomeErrorReason, message: string) {
+    super(message);
+    this.name = "OutcomeError";
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,39 @@
+import { GambleResult, SpinResult } from "../../core/types/type";
+import { OutcomeError, OutcomeProvider } from "./OutcomeProvider";
+
+/**
+ * Hands back recorded outcomes in the order they were played, whatever is
+ * requested. Nothing is generated, so a replayed round lands and pays
+ * exactly as it did the first time.
+ */
+export class ReplayOutcomeProvider implements OutcomeProvider {
+  private spins: SpinResult[];
+  private gambles: GambleResult[];
+
+  constructor(spins: SpinResult[], gambles: GambleResult[] = []) {
+    this.spins = [...spins];
+    this.gambles = [...gambles];
+  }
+
+  public async requestSpin(): Promise<SpinResult> {
+    const result = this.spins.shift();
+    if (!result) {
+      throw new OutcomeError(
+        "invalid-response",
+        "The recorded round has no more spins"
+      );
+    }
+    return result;
+  }
+
+  public async requestGamble(): Promise<GambleResult> {
+    const result = this.gambles.shift();
+    if (!result) {
+      throw new OutcomeError(
+        "invalid-response",
+        "The recorded round has no more gambles"
+      );
+    }
+    return result;
+  }
+}
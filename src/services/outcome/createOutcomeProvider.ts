@@ -0,0 +1,22 @@
+import { GAME_CONFIG } from "../../config/game.config";
+import { HttpOutcomeProvider } from "./HttpOutcomeProvider";
+import { LocalOutcomeProvider } from "./LocalOutcomeProvider";
+import { OutcomeProvider } from "./OutcomeProvider";
+
+/**
+ * Create the outcome provider selected in the game config.
+ * `?outcome=http` and `?outcomeUrl=...` override the config for QA.
+ */
+export function createOutcomeProvider(): OutcomeProvider {
+  const params = new URLSearchParams(window.location.search);
+  const type = params.get("outcome") ?? GAME_CONFIG.outcome.provider;
+
+  if (type === "http") {
+    return new HttpOutcomeProvider({
+      url: params.get("outcomeUrl") ?? GAME_CONFIG.outcome.url,
+      timeoutMs: GAME_CONFIG.outcome.timeoutMs,
+    });
+  }
+
+  return new LocalOutcomeProvider();
+}
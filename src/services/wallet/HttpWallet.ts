@@ -0,0 +1,110 @@
+import { fromMinorUnits, toMinorUnits } from "../../utils/currency";
+import { Wallet, WalletError } from "./Wallet";
+
+export interface HttpWalletOptions {
+  url: string;
+  timeoutMs: number;
+}
+
+/**
+ * Wallet kept by a remote server over HTTP/JSON.
+ * Each call is a POST to `balance`, `debit`, `credit`, `hold`, `release` or
+ * `rollback` under the wallet URL, amounts go over the wire in minor units.
+ * Wins are never sent: the server settles them from its own record of the
+ * round's outcomes.
+ * The format is documented in docs/outcome-api.md.
+ */
+export class HttpWallet implements Wallet {
+  private options: HttpWalletOptions;
+
+  constructor(options: HttpWalletOptions) {
+    this.options = options;
+  }
+
+  public getBalance(): Promise<number> {
+    return this.post("balance", {});
+  }
+
+  public debit(roundId: string, amount: number): Promise<number> {
+    return this.post("debit", { roundId, amount: toMinorUnits(amount) });
+  }
+
+  public credit(roundId: string): Promise<number> {
+    return this.post("credit", { roundId });
+  }
+
+  public hold(roundId: string): Promise<number> {
+    return this.post("hold", { roundId });
+  }
+
+  public release(roundId: string): Promise<number> {
+    return this.post("release", { roundId });
+  }
+
+  public releaseHeld(): Promise<number> {
+    return this.post("release", {});
+  }
+
+  public rollback(roundId: string): Promise<number> {
+    return this.post("rollback", { roundId });
+  }
+
+  /**
+   * POST a transaction and read the balance from the answer
+   */
+  private async post(path: string, request: unknown): Promise<number> {
+    const url = new URL(path, this.options.url).toString();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(
+      () => controller.abort(),
+      this.options.timeoutMs
+    );
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+        signal: controller.signal,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new WalletError(
+          "timeout",
+          `No response from ${url} within ${this.options.timeoutMs}ms`
+        );
+      }
+      throw new WalletError("network", `Request failed: ${String(error)}`);
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    if (response.status === 402) {
+      throw new WalletError("insufficient-funds", "Insufficient funds");
+    }
+    if (response.status === 404) {
+      throw new WalletError("unknown-round", "Round not found");
+    }
+    if (!response.ok) {
+      throw new WalletError(
+        "network",
+        `Server responded with ${response.status} ${response.statusText}`
+      );
+    }
+
+    let body: { balance?: unknown };
+    try {
+      body = await response.json();
+    } catch {
+      throw new WalletError("invalid-response", "Response is not valid JSON");
+    }
+    if (!Number.isInteger(body?.balance)) {
+      throw new WalletError(
+        "invalid-response",
+        "Response has no balance in minor units"
+      );
+    }
+    return fromMinorUnits(body.balance as number);
+  }
+}
@@ -0,0 +1,146 @@
+import { GAME_CONFIG } from "../../config/game.config";
+import {
+  formatCurrency,
+  fromMinorUnits,
+  toMinorUnits,
+} from "../../utils/currency";
+import { getLocalStorage } from "../../utils/storage";
+import { Wallet, WalletError } from "./Wallet";
+
+const STORAGE_KEY = "westcowboy.wallet";
+// Rounds remembered for rollback, older ones can no longer be undone
+const MAX_ROUNDS = 20;
+
+/**
+ * What a round has moved, in minor units
+ */
+interface RoundTransactions {
+  debited: number;
+  credited: number;
+  // Win held in escrow, not yet in the balance
+  held?: number;
+}
+
+interface StoredWallet {
+  balance: number;
+  rounds: [string, RoundTransactions][];
+}
+
+/**
+ * Wallet kept in this browser's localStorage, so the balance carries over
+ * reloads. Without storage (private mode, quota, Node) it still works for
+ * the session.
+ * Amounts are held in minor units so they add up exactly.
+ */
+export class LocalWallet implements Wallet {
+  private storage: Storage | null;
+  private balance: number;
+  private rounds: Map<string, RoundTransactions>;
+
+  constructor(
+    storage: Storage | null = getLocalStorage(),
+    startingBalance: number = GAME_CONFIG.wallet.startingBalance
+  ) {
+    this.storage = storage;
+    const stored = this.load();
+    this.balance = stored?.balance ?? toMinorUnits(startingBalance);
+    this.rounds = new Map(stored?.rounds);
+  }
+
+  public async getBalance(): Promise<number> {
+    return fromMinorUnits(this.balance);
+  }
+
+  public async debit(roundId: string, amount: number): Promise<number> {
+    if (!this.rounds.has(roundId)) {
+      const units = toMinorUnits(amount);
+      if (units > this.balance) {
+        throw new WalletError(
+          "insufficient-funds",
+          `Balance ${formatCurrency(fromMinorUnits(this.balance))} does not cover ${formatCurrency(amount)}`
+        );
+      }
+
+      this.balance -= units;
+      this.rounds.set(roundId, { debited: units, credited: 0 });
+      this.save();
+    }
+    return fromMinorUnits(this.balance);
+  }
+
+  public async credit(roundId: string, amount: number): Promise<number> {
+    const round = this.getRound(roundId);
+    const units = toMinorUnits(amount);
+    round.credited += units;
+    this.balance += units;
+    this.save();
+    return fromMinorUnits(this.balance);
+  }
+
+  public async hold(roundId: string, amount: number): Promise<number> {
+    const round = this.getRound(roundId);
+    round.held = toMinorUnits(amount);
+    this.save();
+    return fromMinorUnits(this.balance);
+  }
+
+  public async release(roundId: string): Promise<number> {
+    this.releaseRound(this.getRound(roundId));
+    this.save();
+    return fromMinorUnits(this.balance);
+  }
+
+  public async releaseHeld(): Promise<number> {
+    this.rounds.forEach((round) => this.releaseRound(round));
+    this.save();
+    return fromMinorUnits(this.balance);
+  }
+
+  public async rollback(roundId: string): Promise<number> {
+    const round = this.getRound(roundId);
+    this.balance += round.debited - round.credited;
+    this.rounds.delete(roundId);
+    this.save();
+    return fromMinorUnits(this.balance);
+  }
+
+  private releaseRound(round: RoundTransactions): void {
+    const held = round.held ?? 0;
+    round.credited += held;
+    round.held = 0;
+    this.balance += held;
+  }
+
+  private getRound(roundId: string): RoundTransactions {
+    const round = this.rounds.get(roundId);
+    if (!round) {
+      throw new WalletError("unknown-round", `No open round '${roundId}'`);
+    }
+    return round;
+  }
+
+  private load(): StoredWallet | null {
+    try {
+      const stored = JSON.parse(this.storage?.getItem(STORAGE_KEY) ?? "null");
+      return Number.isInteger(stored?.balance) && Array.isArray(stored.rounds)
+        ? stored
+        : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private save(): void {
+    // Oldest rounds go first, Map keeps insertion order
+    const rounds = Array.from(this.rounds.entries()).slice(-MAX_ROUNDS);
+    this.rounds = new Map(rounds);
+    try {
+      this.storage?.setItem(
+        STORAGE_KEY,
+        JSON.stringify({ balance: this.balance, rounds })
+      );
+    } catch (error) {
+      console.warn("Could not save wallet:", error);
+    }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * The player's money.
+ * A round's stake is debited when it is spun and its win credited once it is
+ * settled, both against the round's id. A win that can still be gambled is
+ * held in escrow until it is released. A round that could not be played is
+ * rolled back. Every call resolves with the balance after it.
+ *
+ * Balances are kept locally for now; a remote wallet takes over by
+ * implementing the same interface (see HttpWallet). It pays and holds from
+ * its own record of the round's outcomes, going by the round id only.
+ */
+export interface Wallet {
+  getBalance(): Promise<number>;
+  // Take a round's stake, a repeated round id is not charged twice
+  debit(roundId: string, amount: number): Promise<number>;
+  // Pay (part of) a round's win
+  credit(roundId: string, amount: number): Promise<number>;
+  // Hold a round's win apart from the balance, replacing what was held
+  hold(roundId: string, amount: number): Promise<number>;
+  // Pay the round's held win into the balance
+  release(roundId: string): Promise<number>;
+  // Pay out every held win, e.g. one a reload left in the middle of a gamble
+  releaseHeld(): Promise<number>;
+  // Undo everything the round moved, refunding its stake
+  rollback(roundId: string): Promise<number>;
+}
+
+export type WalletErrorReason =
+  | "insufficient-funds"
+  | "unknown-round"
+  | "timeout"
+  | "network"
+  | "invalid-response";
+
+/**
+ * Raised by wallets when a transaction was refused or could not be made
+ */
+export class WalletError extends Error {
+  public readonly reason: WalletErrorReason;
+
+  constructor(reason: WalletErrorReason, message: string) {
+    super(message);
+    this.name = "WalletError";
+    this.reason = reason;
+  }
+}
+
+let roundCount = 0;
+
+/**
+ * A new id for a round, unique across reloads
+ */
+export function createRoundId(): string {
+  return `${Date.now().toString(36)}-${(roundCount++).toString(36)}`;
+}
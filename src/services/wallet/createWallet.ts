@@ -0,0 +1,22 @@
+import { GAME_CONFIG } from "../../config/game.config";
+import { HttpWallet } from "./HttpWallet";
+import { LocalWallet } from "./LocalWallet";
+import { Wallet } from "./Wallet";
+
+/**
+ * Create the wallet selected in the game config.
+ * `?wallet=http` and `?walletUrl=...` override the config for QA.
+ */
+export function createWallet(): Wallet {
+  const params = new URLSearchParams(window.location.search);
+  const type = params.get("wallet") ?? GAME_CONFIG.wallet.provider;
+
+  if (type === "http") {
+    return new HttpWallet({
+      url: params.get("walletUrl") ?? GAME_CONFIG.wallet.url,
+      timeoutMs: GAME_CONFIG.wallet.timeoutMs,
+    });
+  }
+
+  return new LocalWallet();
+}
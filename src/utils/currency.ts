@@ -0,0 +1,30 @@
+import { GAME_CONFIG } from "../config/game.config";
+
+const formatter = new Intl.NumberFormat(GAME_CONFIG.currency.locale, {
+  style: "currency",
+  currency: GAME_CONFIG.currency.code,
+});
+
+/**
+ * Decimal places of the currency, 2 for cents
+ */
+export const MINOR_UNITS =
+  formatter.resolvedOptions().maximumFractionDigits ?? 2;
+
+/**
+ * An amount as shown to the player, e.g. "$1,234.50"
+ */
+export function formatCurrency(amount: number): string {
+  return formatter.format(amount);
+}
+
+/**
+ * Whole minor units (cents) of an amount, exact to add and subtract
+ */
+export function toMinorUnits(amount: number): number {
+  return Math.round(amount * 10 ** MINOR_UNITS);
+}
+
+export function fromMinorUnits(units: number): number {
+  return units / 10 ** MINOR_UNITS;
+}
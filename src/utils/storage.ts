@@ -0,0 +1,22 @@
+/**
+ * This browser's localStorage, null where there is none (private mode,
+ * Node) so callers can keep working for the session
+ */
+export function getLocalStorage(): Storage | null {
+  try {
+    return localStorage;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a setItem failed because the storage is full
+ */
+export function isQuotaExceeded(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === "QuotaExceededError" ||
+      error.name === "NS_ERROR_DOM_QUOTA_REACHED")
+  );
+}
@@ -0,0 +1,10 @@
+import { gsap } from "gsap";
+
+/**
+ * Resolve after the given number of seconds on the gsap ticker
+ */
+export function wait(seconds: number): Promise<void> {
+  return new Promise((resolve) => {
+    gsap.delayedCall(seconds, resolve);
+  });
+}